@@ -1,25 +1,30 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { SessionManager } from '@/lib/services/session-manager';
+import { getOrchestrator } from '@/lib/orchestrator/registry';
+import { toVoiceSession } from '@/lib/orchestrator/legacy-adapter';
 
 /**
  * Get session details and current snapshot
+ * Sessions are owned by the orchestrator; the response keeps the legacy
+ * VoiceSession shape for existing consumers.
  */
 export async function GET(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
   try {
-    const sessionManager = new SessionManager();
+    const orchestrator = getOrchestrator();
     const { id: sessionId } = await params;
-    const session = sessionManager.getSession(sessionId);
+    const state = orchestrator.getSession(sessionId);
 
-    if (!session) {
+    if (!state) {
       return NextResponse.json(
         { error: 'Session not found' },
         { status: 404 }
       );
     }
 
+    const session = toVoiceSession(state);
+
     return NextResponse.json({
       session: {
         id: session.id,
@@ -29,6 +34,7 @@ export async function GET(
         phoneNumber: session.phoneNumber,
       },
       snapshot: session.snapshot,
+      intake_snapshot: state.snapshot,
       transcript: session.transcript,
     });
   } catch (error) {
@@ -48,9 +54,18 @@ export async function POST(
   { params }: { params: Promise<{ id: string }> }
 ) {
   try {
-    const sessionManager = new SessionManager();
+    const orchestrator = getOrchestrator();
     const { id: sessionId } = await params;
-    const session = await sessionManager.endSession(sessionId);
+
+    if (!orchestrator.getSession(sessionId)) {
+      return NextResponse.json(
+        { error: 'Session not found' },
+        { status: 404 }
+      );
+    }
+
+    orchestrator.endSession(sessionId);
+    const session = toVoiceSession(orchestrator.getSession(sessionId)!);
 
     return NextResponse.json({
       success: true,
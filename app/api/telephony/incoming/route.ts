@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { TwilioService } from '@/lib/services/twilio';
-import { SessionManager } from '@/lib/services/session-manager';
+import { getOrchestrator } from '@/lib/orchestrator/registry';
+import { getTemplateRegistry } from '@/lib/orchestrator/templates';
 
 /**
  * Webhook endpoint for incoming Twilio calls
@@ -9,8 +10,8 @@ import { SessionManager } from '@/lib/services/session-manager';
 export async function POST(request: NextRequest) {
   try {
     const twilioService = new TwilioService();
-    const sessionManager = new SessionManager();
-    
+    const orchestrator = getOrchestrator();
+
     const formData = await request.formData();
     const callSid = formData.get('CallSid') as string;
     const from = formData.get('From') as string;
@@ -18,13 +19,23 @@ export async function POST(request: NextRequest) {
 
     console.log(`Incoming call from ${from} to ${to}, CallSid: ${callSid}`);
 
-    // Create session for this call
-    const session = sessionManager.createSession(callSid, from);
-    console.log(`Created session: ${session.id}`);
+    // Intake template is configured per Twilio number via ?template_id=.
+    // A misconfigured id should not drop the call, so it falls back to the default
+    let templateId = request.nextUrl.searchParams.get('template_id') || undefined;
+    if (templateId && !getTemplateRegistry().get(templateId)) {
+      console.warn(`Unknown intake template ${templateId} for ${to}, using the default template`);
+      templateId = undefined;
+    }
+
+    // Create orchestrator session for this call (the CallSid is the call_id)
+    if (!orchestrator.getSession(callSid)) {
+      orchestrator.initializeSession(callSid, { callSid, phoneNumber: from, templateId });
+    }
+    console.log(`Created session: ${callSid}`);
 
     // Generate WebSocket URL for audio streaming
     const baseUrl = process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000';
-    const websocketUrl = `wss://${new URL(baseUrl).host}/api/websocket?sessionId=${session.id}`;
+    const websocketUrl = `wss://${new URL(baseUrl).host}/api/websocket?sessionId=${encodeURIComponent(callSid)}`;
 
     // Generate TwiML response
     const twiml = twilioService.generateTwiMLForIncoming(websocketUrl);
@@ -1,5 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { SessionManager } from '@/lib/services/session-manager';
+import { getOrchestrator } from '@/lib/orchestrator/registry';
+
+// Twilio CallStatus values that end a call without it completing normally
+const FAILED_STATUSES = ['failed', 'busy', 'no-answer', 'canceled'];
 
 /**
  * Webhook for call status callbacks
@@ -7,8 +10,8 @@ import { SessionManager } from '@/lib/services/session-manager';
  */
 export async function POST(request: NextRequest) {
   try {
-    const sessionManager = new SessionManager();
-    
+    const orchestrator = getOrchestrator();
+
     const formData = await request.formData();
     const callSid = formData.get('CallSid') as string;
     const callStatus = formData.get('CallStatus') as string;
@@ -16,16 +19,24 @@ export async function POST(request: NextRequest) {
 
     console.log(`Call status update - SID: ${callSid}, Status: ${callStatus}`);
 
-    // Find session by callSid
-    // In a real implementation, we'd have a database lookup
-    // For now, this is handled in SessionManager
+    // Orchestrator sessions are keyed by CallSid
+    if (!orchestrator.getSession(callSid)) {
+      console.warn(`No session for call ${callSid}`);
+      return NextResponse.json({ success: true });
+    }
+
+    // Update session with recording URL if available
+    if (recordingUrl) {
+      console.log(`Recording available: ${recordingUrl}`);
+      orchestrator.updateSessionMetadata(callSid, { recording_url: recordingUrl });
+    }
 
     if (callStatus === 'completed') {
       console.log(`Call completed: ${callSid}`);
-      // Update session with recording URL if available
-      if (recordingUrl) {
-        console.log(`Recording available: ${recordingUrl}`);
-      }
+      orchestrator.endSession(callSid, 'completed');
+    } else if (FAILED_STATUSES.includes(callStatus)) {
+      console.log(`Call ended with status ${callStatus}: ${callSid}`);
+      orchestrator.endSession(callSid, 'failed');
     }
 
     return NextResponse.json({ success: true });
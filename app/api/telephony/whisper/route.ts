@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { TwilioService } from '@/lib/services/twilio';
+import { getOrchestrator } from '@/lib/orchestrator/registry';
+import { buildHandoffSummary } from '@/lib/orchestrator/handoff-summary';
+
+/**
+ * Whisper for warm transfers to TRANSFER_STAFF_NUMBER
+ * Twilio fetches this when the staff member answers a transferred call and
+ * plays the call summary to them before connecting the caller. The summary
+ * holds PHI, so only requests signed by Twilio are answered.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const twilioService = new TwilioService();
+
+    // Twilio signs the URL it was given, which is built on NEXT_PUBLIC_APP_URL
+    const baseUrl = process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000';
+    const url = `${baseUrl}${request.nextUrl.pathname}${request.nextUrl.search}`;
+    const formData = await request.formData();
+    const params = Object.fromEntries(
+      Array.from(formData.entries()).map(([key, value]) => [key, String(value)])
+    );
+    if (!twilioService.validateWebhook(request.headers.get('x-twilio-signature'), url, params)) {
+      return new NextResponse('Forbidden', { status: 403 });
+    }
+
+    const callId = request.nextUrl.searchParams.get('call_id');
+    const state = callId ? getOrchestrator().getSession(callId) : undefined;
+
+    const summary = state
+      ? buildHandoffSummary(state)
+      : 'Incoming transfer from the intake line. No intake details are available.';
+
+    return new NextResponse(twilioService.generateWhisperTwiML(summary), {
+      headers: {
+        'Content-Type': 'text/xml',
+      },
+    });
+  } catch (error) {
+    console.error('Error generating transfer whisper:', error);
+    return new NextResponse(
+      '<?xml version="1.0" encoding="UTF-8"?><Response><Say>Incoming transfer from the intake line.</Say></Response>',
+      {
+        status: 500,
+        headers: {
+          'Content-Type': 'text/xml',
+        },
+      }
+    );
+  }
+}
@@ -1,20 +1,14 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { Orchestrator } from '@/lib/orchestrator';
+import { getOrchestrator } from '@/lib/orchestrator/registry';
+import { StaleSnapshotError } from '@/lib/orchestrator/snapshot-history';
 import { IntakeSnapshot } from '@/lib/types';
 
-// Global orchestrator instance
-let orchestratorInstance: Orchestrator | null = null;
-
-function getOrchestrator(): Orchestrator {
-  if (!orchestratorInstance) {
-    orchestratorInstance = new Orchestrator();
-  }
-  return orchestratorInstance;
-}
-
 /**
  * POST /api/v1/emit_snapshot
- * Validate and store IntakeSnapshot
+ * Body: { snapshot, expected_version? }
+ * Validate and store IntakeSnapshot. The version the write is based on
+ * (expected_version, else snapshot.version; 0 for a call without one) is
+ * required, and a stale one is rejected with 409.
  */
 export async function POST(request: NextRequest) {
   try {
@@ -28,17 +22,33 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    const expectedVersion = body.expected_version ?? snapshot.version;
+    if (!Number.isInteger(expectedVersion)) {
+      return NextResponse.json(
+        { error: 'Invalid request: expected_version (or snapshot.version) must be an integer' },
+        { status: 400 }
+      );
+    }
+
     const orchestrator = getOrchestrator();
 
     // Validate and emit snapshot
-    await orchestrator.emitSnapshot(snapshot.call_id, snapshot);
+    await orchestrator.emitSnapshot(snapshot.call_id, snapshot, expectedVersion, 'manual');
 
     return NextResponse.json({
       success: true,
       call_id: snapshot.call_id,
+      version: snapshot.version,
       timestamp: snapshot.timestamp,
     });
   } catch (error) {
+    if (error instanceof StaleSnapshotError) {
+      return NextResponse.json(
+        { error: error.message, current_version: error.currentVersion },
+        { status: 409 }
+      );
+    }
+
     console.error('Error emitting snapshot:', error);
     return NextResponse.json(
       {
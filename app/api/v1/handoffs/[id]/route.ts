@@ -0,0 +1,76 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getOrchestrator } from '@/lib/orchestrator/registry';
+
+/**
+ * POST /api/v1/handoffs/:id
+ * Body: { action: 'claim' | 'release' | 'resolve', actor }
+ * Claim a queued handoff, return a claimed one to the queue, or close it
+ * once the caller has been taken
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id: handoffId } = await params;
+    const body = await request.json();
+    const actor = typeof body.actor === 'string' ? body.actor.trim() : '';
+
+    if (!actor || !['claim', 'release', 'resolve'].includes(body.action)) {
+      return NextResponse.json(
+        { error: 'Invalid request: actor and action (claim, release, resolve) required' },
+        { status: 400 }
+      );
+    }
+
+    const orchestrator = getOrchestrator();
+    const handoff = orchestrator.findHandoff(handoffId);
+
+    if (!handoff) {
+      return NextResponse.json({ error: 'Handoff not found' }, { status: 404 });
+    }
+    if (body.action === 'claim' && handoff.status !== 'queued') {
+      return NextResponse.json(
+        { error: `Handoff is ${handoff.status}${handoff.claimed_by ? ` by ${handoff.claimed_by}` : ''}` },
+        { status: 409 }
+      );
+    }
+    if (body.action === 'release' && (handoff.status !== 'claimed' || handoff.claimed_by !== actor)) {
+      return NextResponse.json(
+        { error: `Handoff is not claimed by ${actor}` },
+        { status: 409 }
+      );
+    }
+
+    if (
+      body.action === 'resolve' &&
+      (handoff.status === 'resolved' || (handoff.status === 'claimed' && handoff.claimed_by !== actor))
+    ) {
+      return NextResponse.json(
+        { error: `Handoff is ${handoff.status}${handoff.claimed_by ? ` by ${handoff.claimed_by}` : ''}` },
+        { status: 409 }
+      );
+    }
+
+    const updated =
+      body.action === 'claim'
+        ? orchestrator.claimHandoff(handoffId, actor)
+        : body.action === 'release'
+          ? orchestrator.releaseHandoff(handoffId, actor)
+          : orchestrator.resolveHandoff(handoffId, actor);
+
+    return NextResponse.json({
+      success: true,
+      handoff: updated,
+    });
+  } catch (error) {
+    console.error('Error updating handoff:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to update handoff',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
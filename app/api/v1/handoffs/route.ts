@@ -0,0 +1,23 @@
+import { NextResponse } from 'next/server';
+import { getOrchestrator } from '@/lib/orchestrator/registry';
+
+/**
+ * GET /api/v1/handoffs
+ * Open handoffs: queued by priority and age, then claimed
+ */
+export async function GET() {
+  try {
+    const orchestrator = getOrchestrator();
+
+    return NextResponse.json({
+      handoffs: orchestrator.getHandoffQueue(),
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    console.error('Error fetching handoff queue:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch handoff queue' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,15 +1,7 @@
 import { NextRequest } from 'next/server';
-import { Orchestrator, OrchestratorEvent } from '@/lib/orchestrator';
-
-// Global orchestrator instance
-let orchestratorInstance: Orchestrator | null = null;
-
-function getOrchestrator(): Orchestrator {
-  if (!orchestratorInstance) {
-    orchestratorInstance = new Orchestrator();
-  }
-  return orchestratorInstance;
-}
+import { OrchestratorEvent } from '@/lib/orchestrator';
+import { getOrchestrator } from '@/lib/orchestrator/registry';
+import { redactCurrentState, redactEvent } from '@/lib/orchestrator/live-redaction';
 
 /**
  * GET /api/v1/live?call_id=xxx
@@ -30,10 +22,19 @@ export async function GET(request: NextRequest) {
       const initialData = `data: ${JSON.stringify({ type: 'connected', call_id: callId })}\n\n`;
       controller.enqueue(encoder.encode(initialData));
 
+      // Send the handoff queue so staff see open handoffs immediately
+      const queueData = `data: ${JSON.stringify({
+        type: 'handoff_queue',
+        call_id: callId,
+        queue: orchestrator.getHandoffQueue(),
+        timestamp: new Date().toISOString(),
+      })}\n\n`;
+      controller.enqueue(encoder.encode(queueData));
+
       // Set up event listener
       const listener = (event: OrchestratorEvent) => {
         try {
-          const eventData = `data: ${JSON.stringify(event)}\n\n`;
+          const eventData = `data: ${JSON.stringify(redactEvent(event, orchestrator.getSession(event.call_id)?.snapshot.patient?.full_name))}\n\n`;
           controller.enqueue(encoder.encode(eventData));
         } catch (error) {
           console.error('Error sending SSE event:', error);
@@ -49,8 +50,7 @@ export async function GET(request: NextRequest) {
           const stateData = `data: ${JSON.stringify({
             type: 'current_state',
             call_id: callId,
-            snapshot: session.snapshot,
-            turns: session.turns,
+            ...redactCurrentState(session),
             timestamp: new Date().toISOString(),
           })}\n\n`;
           controller.enqueue(encoder.encode(stateData));
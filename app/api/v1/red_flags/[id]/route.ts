@@ -0,0 +1,96 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getOrchestrator } from '@/lib/orchestrator/registry';
+import { canTransitionRedFlag } from '@/lib/orchestrator/red-flag-lifecycle';
+import { RedFlagStatus } from '@/lib/types';
+
+const ACTIONS: Record<string, RedFlagStatus> = {
+  acknowledge: 'acknowledged',
+  dismiss: 'dismissed',
+  escalate: 'escalated',
+};
+
+/**
+ * GET /api/v1/red_flags/:id
+ * Get a red flag with its audit trail
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id: flagId } = await params;
+    const flag = getOrchestrator().findRedFlag(flagId);
+
+    if (!flag) {
+      return NextResponse.json({ error: 'Red flag not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ red_flag: flag });
+  } catch (error) {
+    console.error('Error fetching red flag:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch red flag' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/v1/red_flags/:id
+ * Body: { action: 'acknowledge' | 'dismiss' | 'escalate', actor, reason? }
+ * Record a staff decision on a red flag; dismissal requires a reason
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id: flagId } = await params;
+    const body = await request.json();
+    const status = ACTIONS[body.action];
+    const actor = typeof body.actor === 'string' ? body.actor.trim() : '';
+    const reason = typeof body.reason === 'string' ? body.reason.trim() : undefined;
+
+    if (!status || !actor) {
+      return NextResponse.json(
+        { error: `Invalid request: actor and action (${Object.keys(ACTIONS).join(', ')}) required` },
+        { status: 400 }
+      );
+    }
+    if (status === 'dismissed' && !reason) {
+      return NextResponse.json(
+        { error: 'Invalid request: reason required to dismiss' },
+        { status: 400 }
+      );
+    }
+
+    const orchestrator = getOrchestrator();
+    const flag = orchestrator.findRedFlag(flagId);
+
+    if (!flag) {
+      return NextResponse.json({ error: 'Red flag not found' }, { status: 404 });
+    }
+    if (!canTransitionRedFlag(flag, status)) {
+      return NextResponse.json(
+        { error: `Red flag is ${flag.status} and cannot be ${status}` },
+        { status: 409 }
+      );
+    }
+
+    const updated = await orchestrator.updateRedFlagStatus(flagId, status, actor, reason);
+
+    return NextResponse.json({
+      success: true,
+      red_flag: updated,
+    });
+  } catch (error) {
+    console.error('Error updating red flag:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to update red flag',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getOrchestrator } from '@/lib/orchestrator/registry';
+import { RedFlagRecord } from '@/lib/types';
+
+/**
+ * GET /api/v1/red_flags?call_id=xxx&status=detected
+ * List red flags for a call, or for all calls when call_id is omitted
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const searchParams = request.nextUrl.searchParams;
+    const callId = searchParams.get('call_id');
+    const status = searchParams.get('status');
+
+    const orchestrator = getOrchestrator();
+    let flags: RedFlagRecord[];
+
+    if (callId) {
+      if (!orchestrator.getSession(callId)) {
+        return NextResponse.json({ error: 'Session not found' }, { status: 404 });
+      }
+      flags = orchestrator.getRedFlags(callId);
+    } else {
+      flags = Array.from(orchestrator.getAllSessions().values()).flatMap(
+        (state) => state.red_flag_records || []
+      );
+    }
+
+    if (status) {
+      flags = flags.filter((flag) => flag.status === status);
+    }
+
+    return NextResponse.json({
+      red_flags: flags.sort((a, b) => b.detected_at.localeCompare(a.detected_at)),
+    });
+  } catch (error) {
+    console.error('Error fetching red flags:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch red flags' },
+      { status: 500 }
+    );
+  }
+}
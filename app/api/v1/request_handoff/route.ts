@@ -1,17 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { Orchestrator } from '@/lib/orchestrator';
+import { getOrchestrator } from '@/lib/orchestrator/registry';
 import { RequestHandoffArgs } from '@/lib/types';
 
-// Global orchestrator instance
-let orchestratorInstance: Orchestrator | null = null;
-
-function getOrchestrator(): Orchestrator {
-  if (!orchestratorInstance) {
-    orchestratorInstance = new Orchestrator();
-  }
-  return orchestratorInstance;
-}
-
 /**
  * POST /api/v1/request_handoff
  * Request handoff to human staff (safety escalation)
@@ -30,8 +20,8 @@ export async function POST(request: NextRequest) {
 
     const orchestrator = getOrchestrator();
 
-    // Process handoff request
-    await orchestrator.requestHandoff(handoffRequest);
+    // Process handoff request and queue it for staff
+    const handoff = await orchestrator.requestHandoff(handoffRequest);
 
     // Log urgent event
     console.log(`[URGENT HANDOFF] Call: ${handoffRequest.call_id}, Reason: ${handoffRequest.reason}, Priority: ${handoffRequest.priority || 'normal'}`);
@@ -40,7 +30,8 @@ export async function POST(request: NextRequest) {
       success: true,
       call_id: handoffRequest.call_id,
       reason: handoffRequest.reason,
-      priority: handoffRequest.priority || 'normal',
+      priority: handoff?.priority || handoffRequest.priority || 'normal',
+      handoff_id: handoff?.handoff_id,
       timestamp: new Date().toISOString(),
     });
   } catch (error) {
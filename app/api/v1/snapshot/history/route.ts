@@ -0,0 +1,70 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getOrchestrator } from '@/lib/orchestrator/registry';
+import { diffSnapshots, snapshotAtVersion } from '@/lib/orchestrator/snapshot-history';
+
+/**
+ * GET /api/v1/snapshot/history?call_id=xxx&from=1&to=3&version=2
+ * Every stored snapshot version for a call, each with its changes from the
+ * previous version. With from/to, also the diff between those two versions;
+ * with version, the full snapshot as it was then.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const searchParams = request.nextUrl.searchParams;
+    const callId = searchParams.get('call_id');
+    const from = searchParams.get('from');
+    const to = searchParams.get('to');
+    const version = searchParams.get('version');
+
+    if (!callId) {
+      return NextResponse.json({ error: 'call_id required' }, { status: 400 });
+    }
+
+    const orchestrator = getOrchestrator();
+    const versions = orchestrator.getSnapshotHistory(callId);
+
+    if (versions.length === 0) {
+      return NextResponse.json({ error: 'Snapshot history not found' }, { status: 404 });
+    }
+
+    let diff;
+    if (from || to) {
+      const before = snapshotAtVersion(versions, Number(from));
+      const after = snapshotAtVersion(versions, Number(to));
+      if (!before || !after) {
+        return NextResponse.json(
+          { error: 'from and to must both be stored versions' },
+          { status: 400 }
+        );
+      }
+      diff = {
+        from: before.version,
+        to: after.version,
+        changes: diffSnapshots(before, after),
+      };
+    }
+
+    let snapshot;
+    if (version) {
+      snapshot = snapshotAtVersion(versions, Number(version));
+      if (!snapshot) {
+        return NextResponse.json({ error: 'version must be a stored version' }, { status: 400 });
+      }
+    }
+
+    return NextResponse.json({
+      success: true,
+      call_id: callId,
+      current_version: versions[versions.length - 1].version,
+      versions,
+      ...(diff && { diff }),
+      ...(snapshot && { snapshot }),
+    });
+  } catch (error) {
+    console.error('Error fetching snapshot history:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch snapshot history' },
+      { status: 500 }
+    );
+  }
+}
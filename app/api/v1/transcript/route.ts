@@ -1,17 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { Orchestrator } from '@/lib/orchestrator';
+import { getOrchestrator } from '@/lib/orchestrator/registry';
+import { DEFAULT_TEMPLATE_ID, getTemplateRegistry } from '@/lib/orchestrator/templates';
 import { TranscriptTurn } from '@/lib/types';
 
-// Global orchestrator instance (in production, use Redis/DB for state)
-let orchestratorInstance: Orchestrator | null = null;
-
-function getOrchestrator(): Orchestrator {
-  if (!orchestratorInstance) {
-    orchestratorInstance = new Orchestrator();
-  }
-  return orchestratorInstance;
-}
-
 /**
  * POST /api/v1/transcript
  * Receive ASR partial or final transcripts
@@ -30,9 +21,20 @@ export async function POST(request: NextRequest) {
 
     const orchestrator = getOrchestrator();
 
-    // Ensure session exists
+    // Ensure session exists (optionally with a named intake template)
     if (!orchestrator.getSession(turn.call_id)) {
-      orchestrator.initializeSession(turn.call_id);
+      const templateId = body.template_id || DEFAULT_TEMPLATE_ID;
+      if (!getTemplateRegistry().get(templateId, body.template_version)) {
+        const version = body.template_version ? `@${body.template_version}` : '';
+        return NextResponse.json(
+          { error: `Unknown intake template: ${templateId}${version}` },
+          { status: 400 }
+        );
+      }
+      orchestrator.initializeSession(turn.call_id, {
+        templateId,
+        templateVersion: body.template_version,
+      });
     }
 
     // Process the transcript
@@ -1,19 +1,14 @@
 import { NextRequest } from 'next/server';
-import { TwilioMediaMessage } from '@/lib/types';
+import { IntakeQuestion, LLMFunctionCall, TtsPlayback, TwilioMediaMessage } from '@/lib/types';
 import { Orchestrator } from '@/lib/orchestrator';
+import { getOrchestrator } from '@/lib/orchestrator/registry';
+import { DEFAULT_MAX_REGENERATIONS } from '@/lib/orchestrator/compliance';
+import { redactSpeech } from '@/lib/orchestrator/enrichment';
 import { DeepgramService } from '@/lib/services/deepgram';
-import { ElevenLabsService } from '@/lib/services/elevenlabs';
+import { ElevenLabsService, TTS_SAMPLE_RATE } from '@/lib/services/elevenlabs';
 import { OrchestratorGPT } from '@/lib/services/orchestrator-gpt';
-
-// Global instances
-let orchestratorInstance: Orchestrator | null = null;
-
-function getOrchestrator(): Orchestrator {
-  if (!orchestratorInstance) {
-    orchestratorInstance = new Orchestrator();
-  }
-  return orchestratorInstance;
-}
+import { TwilioService } from '@/lib/services/twilio';
+import { FRAME_MS, pcmToTwilioFrames } from '@/lib/utils/audio';
 
 /**
  * WebSocket handler for Twilio Media Streams
@@ -60,10 +55,13 @@ export class TwilioWebSocketHandler {
   private deepgramService: DeepgramService | null = null;
   private elevenlabsService: ElevenLabsService | null = null;
   private gptService: OrchestratorGPT | null = null;
+  private twilioService: TwilioService;
   private callSessions: Map<string, CallSession> = new Map();
 
   constructor() {
     this.orchestrator = getOrchestrator();
+    // Falls back to mock mode (redirects recorded only) without credentials
+    this.twilioService = new TwilioService();
     
     // Initialize services if API keys are available
     try {
@@ -116,6 +114,12 @@ export class TwilioWebSocketHandler {
         }
         break;
 
+      case 'mark':
+        if (message.mark) {
+          this.handlePlaybackMark(message.mark.name, callId);
+        }
+        break;
+
       default:
         console.log(`Unknown event: ${message.event}`);
     }
@@ -131,8 +135,10 @@ export class TwilioWebSocketHandler {
   ): Promise<void> {
     console.log(`Stream started for call ${start.callSid}`);
 
-    // Initialize orchestrator session
-    const state = this.orchestrator.initializeSession(callId);
+    // Initialize orchestrator session unless the incoming-call webhook already did
+    const state =
+      this.orchestrator.getSession(callId) ||
+      this.orchestrator.initializeSession(callId, { callSid: start.callSid });
 
     // Create Deepgram connection if available
     let deepgramConnection = null;
@@ -140,6 +146,11 @@ export class TwilioWebSocketHandler {
       try {
         deepgramConnection = await this.deepgramService.createLiveTranscription(
           async (entry) => {
+            // The patient is talking over the agent: stop the audio
+            if (entry.text.trim()) {
+              this.handleBargeIn(ws, callId);
+            }
+
             // Forward transcript to orchestrator
             const turn = {
               turn_id: this.generateTurnId(),
@@ -158,6 +169,8 @@ export class TwilioWebSocketHandler {
             // Handle orchestrator action
             if (action.action === 'ask_question' && this.gptService) {
               await this.handleQuestionAction(ws, action.data, callId);
+            } else if (action.action === 'confirm_slot') {
+              await this.speakToCall(ws, action.data.prompt, callId);
             } else if (action.action === 'request_handoff') {
               await this.handleHandoffAction(ws, action.data);
             } else if (action.action === 'speak') {
@@ -179,6 +192,16 @@ export class TwilioWebSocketHandler {
       streamSid: start.streamSid,
       deepgramConnection,
       conversationHistory: [],
+      playbacks: new Map(),
+      audioEndsAt: 0,
+    });
+
+    // Speak re-prompts when the patient goes silent; the listener is
+    // dropped when the orchestrator session ends
+    this.orchestrator.addEventListener(callId, (event) => {
+      if (event.type === 'no_input_timeout') {
+        this.speakToCall(ws, event.data.action.data.ssml, callId);
+      }
     });
 
     // Send initial greeting
@@ -191,7 +214,13 @@ export class TwilioWebSocketHandler {
     // Ask first question
     const nextQuestion = state.questions[0];
     if (nextQuestion) {
-      await this.speakToCall(ws, nextQuestion.verbatim, callId);
+      this.orchestrator.checkQuestionCompliance(
+        callId,
+        nextQuestion,
+        nextQuestion.verbatim,
+        'verbatim'
+      );
+      await this.speakToCall(ws, nextQuestion.verbatim, callId, nextQuestion.id);
     }
   }
 
@@ -258,26 +287,51 @@ export class TwilioWebSocketHandler {
       return;
     }
 
-    // Call LLM to generate empathetic question
-    const result = await this.gptService.callLLM(
+    // Call LLM to generate empathetic question. Any snapshot it emits is
+    // based on the version it was shown, whatever is stored by the time it replies.
+    const question: IntakeQuestion | undefined = data.question;
+    const shownVersion = state.snapshot.version ?? 0;
+    let result = await this.gptService.callLLM(
       state,
-      data.question,
+      question || null,
       session.conversationHistory
     );
+    let utterance = this.getUtterance(result);
+
+    // The question must be asked as written: regenerate, then fall back to the verbatim text
+    if (question && utterance) {
+      let compliance = this.orchestrator.checkQuestionCompliance(callId, question, utterance);
+      for (let i = 0; !compliance.compliant && i < DEFAULT_MAX_REGENERATIONS; i++) {
+        result = await this.gptService.callLLM(
+          state,
+          question,
+          session.conversationHistory,
+          `Your last reply did not ask the question exactly as written. Ask it word for word: "${question.verbatim}"`
+        );
+        utterance = this.getUtterance(result);
+        compliance = this.orchestrator.checkQuestionCompliance(callId, question, utterance);
+      }
 
-    // Process function calls if any
-    if (result.functionCalls) {
-      for (const funcCall of result.functionCalls) {
-        await this.orchestrator.processFunctionCall(callId, funcCall);
+      if (!compliance.compliant) {
+        utterance = question.verbatim;
+        this.orchestrator.checkQuestionCompliance(callId, question, utterance, 'verbatim');
+      }
+    }
 
-        // If it's a speak function, execute it
-        if (funcCall.name === 'speak') {
-          await this.speakToCall(ws, funcCall.arguments.ssml, callId);
-        }
+    // Process function calls if any; speech is handled below
+    for (const funcCall of result.functionCalls || []) {
+      if (funcCall.name !== 'speak') {
+        await this.orchestrator.processFunctionCall(callId, funcCall, shownVersion);
       }
-    } else if (result.response) {
-      // Fallback to direct response
-      await this.speakToCall(ws, result.response, callId);
+    }
+
+    if (utterance) {
+      const speakCall = result.functionCalls?.find((funcCall) => funcCall.name === 'speak');
+      await this.orchestrator.processFunctionCall(callId, {
+        name: 'speak',
+        arguments: { ssml: utterance, emotion: speakCall?.arguments.emotion || 'calm' },
+      });
+      await this.speakToCall(ws, utterance, callId, question?.id);
     }
 
     // Update conversation history
@@ -288,7 +342,19 @@ export class TwilioWebSocketHandler {
   }
 
   /**
-   * Handle handoff action
+   * Text the LLM wants spoken: its speak calls, else its direct response
+   */
+  private getUtterance(result: { response: string; functionCalls?: LLMFunctionCall[] }): string {
+    const speech = (result.functionCalls || [])
+      .filter((funcCall) => funcCall.name === 'speak')
+      .map((funcCall) => funcCall.arguments.ssml);
+
+    return speech.length > 0 ? speech.join(' ') : result.response;
+  }
+
+  /**
+   * Handle handoff action: warm-transfer the live call to staff when a
+   * transfer target is configured, otherwise tell the caller to hold
    */
   private async handleHandoffAction(ws: any, data: any): Promise<void> {
     const message = `I need to transfer you to a staff member immediately. ${
@@ -297,44 +363,170 @@ export class TwilioWebSocketHandler {
         : 'Please hold while I connect you.'
     }`;
 
-    await this.speakToCall(ws, message, data.call_id);
+    const session = this.callSessions.get(data.call_id);
+    const target = this.twilioService.getTransferTarget();
+    if (!session || !target) {
+      await this.speakToCall(ws, message, data.call_id);
+      return;
+    }
+
+    // Later turns may repeat the handoff; the call is only transferred once
+    if (this.orchestrator.getSession(data.call_id)?.metadata?.transfer) {
+      return;
+    }
+
+    const baseUrl = process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000';
+    try {
+      // The announcement is part of the transfer TwiML so the redirect does not cut it off.
+      // Only dialed staff hear a whisper; queue pickups see the summary on the dashboard
+      const redirect = await this.twilioService.transferCall(session.callSid, target, {
+        announcement: message,
+        whisperUrl:
+          target.type === 'number'
+            ? `${baseUrl}/api/telephony/whisper?call_id=${encodeURIComponent(data.call_id)}`
+            : undefined,
+      });
+      this.orchestrator.recordTransfer(data.call_id, redirect);
+    } catch (error) {
+      console.error('Failed to transfer call, keeping caller on the line:', error);
+      await this.speakToCall(ws, message, data.call_id);
+    }
   }
 
   /**
-   * Speak text to call via TTS
+   * Speak text to call via TTS: 8 kHz µ-law media frames followed by a
+   * mark, which Twilio echoes back once the audio has played
    */
-  private async speakToCall(ws: any, text: string, callId: string): Promise<void> {
+  private async speakToCall(
+    ws: any,
+    text: string,
+    callId: string,
+    questionId?: string
+  ): Promise<void> {
     if (!this.elevenlabsService) {
       console.warn('ElevenLabs not available, cannot speak to call');
       return;
     }
 
     try {
-      // Generate TTS audio
       const audioBuffer = await this.elevenlabsService.textToSpeech(text);
 
-      // Convert to µ-law and send to Twilio
-      // Note: In production, you'd convert PCM to µ-law format
-      // For now, we'll send a mark event
       const session = this.callSessions.get(callId);
-      if (session) {
+      if (!session) {
+        return;
+      }
+
+      const frames = pcmToTwilioFrames(audioBuffer, TTS_SAMPLE_RATE);
+      for (const frame of frames) {
         ws.send(
           JSON.stringify({
-            event: 'mark',
+            event: 'media',
             streamSid: session.streamSid,
-            mark: {
-              name: 'audio_playback',
+            media: {
+              payload: frame.toString('base64'),
             },
           })
         );
-
-        console.log(`Spoke to call ${callId}: ${text.substring(0, 50)}...`);
       }
+
+      // Twilio plays media in order, so this audio starts after anything still queued
+      const durationMs = frames.length * FRAME_MS;
+      const startsAt = Math.max(Date.now(), session.audioEndsAt);
+      session.audioEndsAt = startsAt + durationMs;
+
+      const playback: TtsPlayback = {
+        playback_id: `playback_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+        text,
+        question_id: questionId,
+        status: 'started',
+        duration_ms: durationMs,
+        started_at: new Date(startsAt).toISOString(),
+      };
+      ws.send(
+        JSON.stringify({
+          event: 'mark',
+          streamSid: session.streamSid,
+          mark: {
+            name: playback.playback_id,
+          },
+        })
+      );
+
+      session.playbacks.set(playback.playback_id, playback);
+      this.orchestrator.recordPlayback(callId, playback);
+
+      const patientName = this.orchestrator.getSession(callId)?.snapshot.patient?.full_name;
+      console.log(`Spoke to call ${callId}: ${redactSpeech(text, patientName).substring(0, 50)}...`);
     } catch (error) {
       console.error('Error speaking to call:', error);
     }
   }
 
+  /**
+   * Patient speech during playback: clear Twilio's outbound buffer and
+   * record how much of each pending utterance was actually heard
+   */
+  private handleBargeIn(ws: any, callId: string): void {
+    const session = this.callSessions.get(callId);
+    if (!session || session.playbacks.size === 0) {
+      return;
+    }
+
+    ws.send(
+      JSON.stringify({
+        event: 'clear',
+        streamSid: session.streamSid,
+      })
+    );
+
+    // Twilio echoes the cleared marks; forget them so they are not taken as completed
+    const now = Date.now();
+    const pending = Array.from(session.playbacks.values());
+    session.playbacks.clear();
+    session.audioEndsAt = now;
+
+    for (const playback of pending) {
+      const heardMs = Math.min(
+        playback.duration_ms,
+        Math.max(0, now - Date.parse(playback.started_at))
+      );
+      this.orchestrator.recordPlayback(callId, {
+        ...playback,
+        status: 'interrupted',
+        completed_at: new Date(now).toISOString(),
+        heard_ms: heardMs,
+        heard_text: this.heardPortion(playback.text, heardMs, playback.duration_ms),
+      });
+    }
+  }
+
+  /**
+   * Estimate the words heard so far, assuming an even speaking rate
+   */
+  private heardPortion(text: string, heardMs: number, durationMs: number): string {
+    const words = text.split(/\s+/).filter(Boolean);
+    const heardWords = durationMs > 0 ? Math.floor((words.length * heardMs) / durationMs) : 0;
+    return words.slice(0, heardWords).join(' ');
+  }
+
+  /**
+   * Twilio reached a playback mark: the audio before it has played
+   */
+  private handlePlaybackMark(name: string, callId: string): void {
+    const session = this.callSessions.get(callId);
+    const playback = session?.playbacks.get(name);
+    if (!session || !playback) {
+      return;
+    }
+
+    session.playbacks.delete(name);
+    this.orchestrator.recordPlayback(callId, {
+      ...playback,
+      status: 'completed',
+      completed_at: new Date().toISOString(),
+    });
+  }
+
   /**
    * Generate unique turn ID
    */
@@ -348,4 +540,6 @@ interface CallSession {
   streamSid: string;
   deepgramConnection: any;
   conversationHistory: Array<{ role: 'user' | 'assistant'; content: string }>;
+  playbacks: Map<string, TtsPlayback>; // Sent audio awaiting its mark, by mark name
+  audioEndsAt: number; // Epoch ms when audio queued at Twilio finishes playing
 }
@@ -24,14 +24,40 @@ interface IntakeSnapshot {
   answers: Record<string, {
     value?: any;
     confidence: number;
-    status: 'filled' | 'unknown' | 'not_applicable';
+    status: 'filled' | 'confirmed' | 'unknown' | 'not_applicable' | 'declined' | 'unknown_to_patient' | 'unanswered';
     evidence_turn_ids: string[];
+    reason?: string;
+    revisions?: Array<{ value?: any; changed_by: string }>;
   }>;
   red_flags: string[];
   completed: boolean;
   timestamp: string;
 }
 
+interface RedFlagRecord {
+  flag_id: string;
+  call_id: string;
+  rule_id: string;
+  reason: string;
+  priority: 'urgent' | 'high' | 'normal';
+  status: 'detected' | 'acknowledged' | 'dismissed' | 'escalated';
+  detected_at: string;
+  dismissal_reason?: string;
+  audit: Array<{ status: string; actor: string; at: string; note?: string }>;
+}
+
+interface HandoffRecord {
+  handoff_id: string;
+  call_id: string;
+  reason: string;
+  priority: 'urgent' | 'high' | 'normal';
+  status: 'queued' | 'claimed' | 'resolved';
+  requested_at: string;
+  sla_due_at?: string;
+  claimed_by?: string;
+  escalations: number;
+}
+
 interface LiveSession {
   call_id: string;
   turns: TranscriptTurn[];
@@ -39,12 +65,22 @@ interface LiveSession {
   current_question?: string;
   status: 'active' | 'completed' | 'handoff_requested';
   lastUpdate: number;
+  flag_reasons?: Record<string, string>; // Red flag rule id -> reason
+  provisional_flags?: string[]; // Raised on interim transcripts, awaiting the final turn
+  flags?: Record<string, RedFlagRecord>; // Red flag records by flag id
+}
+
+// Red flags are stored as rule ids; show the reason when we have seen it
+function flagLabel(session: LiveSession, ruleId: string): string {
+  return session.flag_reasons?.[ruleId] || ruleId.replace(/_/g, ' ');
 }
 
 export default function StaffDashboard() {
   const [liveSessions, setLiveSessions] = useState<Map<string, LiveSession>>(new Map());
   const [selectedCallId, setSelectedCallId] = useState<string | null>(null);
   const [connected, setConnected] = useState(false);
+  const [staffName, setStaffName] = useState('');
+  const [handoffQueue, setHandoffQueue] = useState<HandoffRecord[]>([]);
   const eventSourceRef = useRef<EventSource | null>(null);
 
   // Connect to SSE stream
@@ -88,6 +124,13 @@ export default function StaffDashboard() {
   }, []);
 
   const handleLiveEvent = (event: any) => {
+    // Queue state spans calls
+    if (event.type === 'handoff_queue' || event.type === 'handoff_queue_updated') {
+      const queue = event.type === 'handoff_queue' ? event.queue : event.data?.queue;
+      if (queue) setHandoffQueue(queue);
+      return;
+    }
+
     const callId = event.call_id;
     if (!callId) return;
 
@@ -131,14 +174,80 @@ export default function StaffDashboard() {
           }
           break;
 
+        case 'slot_updated':
+          if (event.data?.slot) {
+            session.snapshot.answers = {
+              ...session.snapshot.answers,
+              [event.data.slot]: {
+                ...session.snapshot.answers[event.data.slot],
+                value: event.data.value,
+                confidence: event.data.confidence,
+                status: event.data.status,
+                reason: event.data.reason,
+                evidence_turn_ids: session.snapshot.answers[event.data.slot]?.evidence_turn_ids || [],
+              },
+            };
+            session.lastUpdate = Date.now();
+          }
+          break;
+
+        case 'slot_corrected':
+          if (event.data?.slot && session.snapshot.answers[event.data.slot]) {
+            session.snapshot.answers[event.data.slot].revisions = event.data.revisions;
+            session.lastUpdate = Date.now();
+          }
+          break;
+
+        case 'slot_confirmed':
+          if (event.data?.slot && session.snapshot.answers[event.data.slot]) {
+            session.snapshot.answers[event.data.slot].status = 'confirmed';
+            session.lastUpdate = Date.now();
+          }
+          break;
+
         case 'red_flag_detected':
+          if (event.data?.provisional) {
+            session.flag_reasons = { ...session.flag_reasons };
+            for (const flag of event.data.flags || []) {
+              session.provisional_flags = [...(session.provisional_flags || []), flag.rule_id];
+              session.flag_reasons[flag.rule_id] = flag.reason;
+            }
+            session.lastUpdate = Date.now();
+            break;
+          }
           session.status = 'handoff_requested';
           if (event.data?.flags) {
-            session.snapshot.red_flags = event.data.flags.map((f: any) => f.reason);
+            session.flag_reasons = { ...session.flag_reasons };
+            for (const flag of event.data.flags) {
+              if (!session.snapshot.red_flags.includes(flag.rule_id)) {
+                session.snapshot.red_flags = [...session.snapshot.red_flags, flag.rule_id];
+              }
+              session.flag_reasons[flag.rule_id] = flag.reason;
+            }
           }
           session.lastUpdate = Date.now();
           break;
 
+        case 'red_flag_confirmed':
+        case 'red_flag_retracted':
+          if (event.data?.flags) {
+            const resolved = event.data.flags.map((flag: any) => flag.rule_id);
+            session.provisional_flags = session.provisional_flags?.filter(id => !resolved.includes(id));
+            session.lastUpdate = Date.now();
+          }
+          break;
+
+        case 'red_flag_updated':
+          if (event.data?.flag) {
+            const flag = event.data.flag as RedFlagRecord;
+            session.flags = { ...session.flags, [flag.flag_id]: flag };
+            if (flag.status === 'dismissed') {
+              session.snapshot.red_flags = session.snapshot.red_flags.filter(id => id !== flag.rule_id);
+            }
+            session.lastUpdate = Date.now();
+          }
+          break;
+
         case 'handoff_requested':
           session.status = 'handoff_requested';
           session.lastUpdate = Date.now();
@@ -158,6 +267,11 @@ export default function StaffDashboard() {
         case 'current_state':
           if (event.snapshot) session.snapshot = event.snapshot;
           if (event.turns) session.turns = event.turns;
+          if (event.red_flags) {
+            session.flags = Object.fromEntries(
+              (event.red_flags as RedFlagRecord[]).map(flag => [flag.flag_id, flag])
+            );
+          }
           session.lastUpdate = Date.now();
           break;
       }
@@ -188,6 +302,58 @@ export default function StaffDashboard() {
     }
   };
 
+  const handleRedFlagAction = async (flagId: string, action: 'acknowledge' | 'dismiss') => {
+    if (!staffName.trim()) {
+      alert('Enter your name before reviewing red flags');
+      return;
+    }
+
+    let reason: string | undefined;
+    if (action === 'dismiss') {
+      reason = prompt('Reason for dismissing this red flag:')?.trim();
+      if (!reason) return;
+    }
+
+    try {
+      const response = await fetch(`/api/v1/red_flags/${flagId}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ action, actor: staffName.trim(), reason }),
+      });
+
+      if (!response.ok) {
+        const body = await response.json();
+        alert(body.error || 'Failed to update red flag');
+      }
+    } catch (error) {
+      console.error('Failed to update red flag:', error);
+      alert('Failed to update red flag');
+    }
+  };
+
+  const handleHandoffAction = async (handoffId: string, action: 'claim' | 'release' | 'resolve') => {
+    if (!staffName.trim()) {
+      alert('Enter your name before claiming handoffs');
+      return;
+    }
+
+    try {
+      const response = await fetch(`/api/v1/handoffs/${handoffId}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ action, actor: staffName.trim() }),
+      });
+
+      if (!response.ok) {
+        const body = await response.json();
+        alert(body.error || `Failed to ${action} handoff`);
+      }
+    } catch (error) {
+      console.error(`Failed to ${action} handoff:`, error);
+      alert(`Failed to ${action} handoff`);
+    }
+  };
+
   const sessions = Array.from(liveSessions.values()).sort((a, b) => b.lastUpdate - a.lastUpdate);
   const selectedSession = selectedCallId ? liveSessions.get(selectedCallId) : null;
   const activeSessions = sessions.filter(s => s.status === 'active');
@@ -213,12 +379,21 @@ export default function StaffDashboard() {
                 </span>
               </p>
             </div>
-            <Link
-              href="/"
-              className="text-blue-600 hover:text-blue-800"
-            >
-              ← Back to Home
-            </Link>
+            <div className="flex items-center gap-4">
+              <input
+                type="text"
+                value={staffName}
+                onChange={(e) => setStaffName(e.target.value)}
+                placeholder="Your name"
+                className="px-2 py-1 border border-gray-300 rounded text-sm"
+              />
+              <Link
+                href="/"
+                className="text-blue-600 hover:text-blue-800"
+              >
+                ← Back to Home
+              </Link>
+            </div>
           </div>
         </div>
       </header>
@@ -250,6 +425,67 @@ export default function StaffDashboard() {
           </div>
         </div>
 
+        {/* Handoff Queue */}
+        {handoffQueue.length > 0 && (
+          <div className="bg-white rounded-lg shadow mb-8">
+            <div className="px-6 py-4 border-b border-gray-200">
+              <h2 className="text-xl font-semibold">Handoff Queue ({handoffQueue.length})</h2>
+            </div>
+            <div className="divide-y divide-gray-200">
+              {handoffQueue.map((handoff) => (
+                <div key={handoff.handoff_id} className="px-6 py-3 flex justify-between items-center">
+                  <div>
+                    <div className="flex items-center gap-2">
+                      <span className={`px-2 py-0.5 rounded text-xs font-medium ${
+                        handoff.priority === 'urgent'
+                          ? 'bg-red-100 text-red-800'
+                          : handoff.priority === 'high'
+                          ? 'bg-orange-100 text-orange-800'
+                          : 'bg-gray-100 text-gray-800'
+                      }`}>
+                        {handoff.priority}
+                      </span>
+                      <span className="text-sm font-medium text-gray-900">{handoff.reason}</span>
+                      {handoff.escalations > 0 && (
+                        <span className="text-xs text-red-600">⏰ escalated {handoff.escalations}x</span>
+                      )}
+                    </div>
+                    <div className="text-xs text-gray-500 mt-1">
+                      {handoff.call_id} · requested {new Date(handoff.requested_at).toLocaleTimeString()}
+                      {handoff.status === 'claimed'
+                        ? ` · claimed by ${handoff.claimed_by}`
+                        : handoff.sla_due_at && ` · SLA ${new Date(handoff.sla_due_at).toLocaleTimeString()}`}
+                    </div>
+                  </div>
+                  {handoff.status === 'queued' ? (
+                    <button
+                      onClick={() => handleHandoffAction(handoff.handoff_id, 'claim')}
+                      className="px-3 py-1 bg-blue-600 text-white rounded text-sm hover:bg-blue-700"
+                    >
+                      Claim
+                    </button>
+                  ) : handoff.claimed_by === staffName.trim() && (
+                    <div className="flex gap-2">
+                      <button
+                        onClick={() => handleHandoffAction(handoff.handoff_id, 'resolve')}
+                        className="px-3 py-1 bg-green-600 text-white rounded text-sm hover:bg-green-700"
+                      >
+                        Resolve
+                      </button>
+                      <button
+                        onClick={() => handleHandoffAction(handoff.handoff_id, 'release')}
+                        className="px-3 py-1 bg-gray-200 text-gray-800 rounded text-sm hover:bg-gray-300"
+                      >
+                        Release
+                      </button>
+                    </div>
+                  )}
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
         <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
           {/* Sessions List */}
           <div className="bg-white rounded-lg shadow">
@@ -304,7 +540,7 @@ export default function StaffDashboard() {
                     </div>
                     {session.snapshot.red_flags.length > 0 && (
                       <div className="mt-2 text-xs text-red-600 font-medium">
-                        ⚠️ {session.snapshot.red_flags[0]}
+                        ⚠️ {flagLabel(session, session.snapshot.red_flags[0])}
                       </div>
                     )}
                   </div>
@@ -341,7 +577,7 @@ export default function StaffDashboard() {
                           </h3>
                           <ul className="text-sm text-red-700 space-y-1">
                             {selectedSession.snapshot.red_flags.map((flag, i) => (
-                              <li key={i}>• {flag}</li>
+                              <li key={i}>• {flagLabel(selectedSession, flag)}</li>
                             ))}
                           </ul>
                         </div>
@@ -349,6 +585,68 @@ export default function StaffDashboard() {
                     </div>
                   )}
 
+                  {/* Red Flag Review */}
+                  {Object.keys(selectedSession.flags || {}).length > 0 && (
+                    <div>
+                      <h3 className="text-lg font-semibold mb-3 text-gray-900">Red Flag Review</h3>
+                      <div className="space-y-3">
+                        {Object.values(selectedSession.flags!).map((flag) => (
+                          <div key={flag.flag_id} className="border border-gray-200 rounded-lg p-3">
+                            <div className="flex justify-between items-start">
+                              <div>
+                                <div className="text-sm font-medium text-gray-900">{flag.reason}</div>
+                                <div className="text-xs text-gray-500">
+                                  {flag.priority} · {flag.status}
+                                  {flag.dismissal_reason && ` · ${flag.dismissal_reason}`}
+                                </div>
+                              </div>
+                              {flag.status !== 'dismissed' && (
+                                <div className="flex gap-2">
+                                  {flag.status !== 'acknowledged' && (
+                                    <button
+                                      onClick={() => handleRedFlagAction(flag.flag_id, 'acknowledge')}
+                                      className="px-2 py-1 bg-blue-600 text-white rounded text-xs hover:bg-blue-700"
+                                    >
+                                      Acknowledge
+                                    </button>
+                                  )}
+                                  <button
+                                    onClick={() => handleRedFlagAction(flag.flag_id, 'dismiss')}
+                                    className="px-2 py-1 bg-gray-200 text-gray-800 rounded text-xs hover:bg-gray-300"
+                                  >
+                                    Dismiss
+                                  </button>
+                                </div>
+                              )}
+                            </div>
+                            <ul className="mt-2 text-xs text-gray-500 space-y-0.5">
+                              {flag.audit.map((entry, i) => (
+                                <li key={i}>
+                                  {new Date(entry.at).toLocaleTimeString()} · {entry.status} by {entry.actor}
+                                  {entry.note && ` (${entry.note})`}
+                                </li>
+                              ))}
+                            </ul>
+                          </div>
+                        ))}
+                      </div>
+                    </div>
+                  )}
+
+                  {/* Provisional Red Flags (interim transcript) */}
+                  {(selectedSession.provisional_flags?.length ?? 0) > 0 && (
+                    <div className="bg-yellow-50 border-l-4 border-yellow-500 p-4">
+                      <h3 className="text-sm font-bold text-yellow-800 mb-1">
+                        Possible Red Flags (awaiting final transcript)
+                      </h3>
+                      <ul className="text-sm text-yellow-700 space-y-1">
+                        {selectedSession.provisional_flags!.map((flag, i) => (
+                          <li key={i}>• {flagLabel(selectedSession, flag)}</li>
+                        ))}
+                      </ul>
+                    </div>
+                  )}
+
                   {/* Live Transcript */}
                   <div>
                     <h3 className="text-lg font-semibold mb-3 text-gray-900">
@@ -388,8 +686,10 @@ export default function StaffDashboard() {
                         <div key={slot} className="flex items-center justify-between p-2 bg-gray-50 rounded">
                           <div className="flex items-center gap-2">
                             <span className={`w-3 h-3 rounded-full ${
+                              answer.status === 'confirmed' ? 'bg-blue-500' :
                               answer.status === 'filled' ? 'bg-green-500' :
                               answer.status === 'unknown' ? 'bg-yellow-500' :
+                              answer.status === 'declined' || answer.status === 'unknown_to_patient' || answer.status === 'unanswered' ? 'bg-orange-500' :
                               'bg-gray-300'
                             }`}></span>
                             <span className="text-sm font-medium text-gray-700">
@@ -397,9 +697,25 @@ export default function StaffDashboard() {
                             </span>
                           </div>
                           <div className="text-sm text-gray-600">
-                            {answer.status === 'filled' ? (
+                            {answer.status === 'filled' || answer.status === 'confirmed' ? (
                               <span className="text-green-600 font-medium">
                                 {typeof answer.value === 'string' ? answer.value : JSON.stringify(answer.value)}
+                                {answer.status === 'confirmed' && (
+                                  <span className="ml-1 text-blue-600" title="Confirmed by read-back">✓</span>
+                                )}
+                                {(answer.revisions?.length ?? 0) > 0 && (
+                                  <span className="ml-2 text-xs text-gray-500 line-through" title="Corrected">
+                                    {JSON.stringify(answer.revisions![answer.revisions!.length - 1].value)}
+                                  </span>
+                                )}
+                              </span>
+                            ) : answer.status === 'declined' || answer.status === 'unknown_to_patient' || answer.status === 'unanswered' ? (
+                              <span className="text-orange-600 font-medium" title="Needs staff follow-up">
+                                {answer.status === 'declined'
+                                  ? 'Declined to answer'
+                                  : answer.status === 'unknown_to_patient'
+                                    ? "Patient doesn't know"
+                                    : 'No answer after repeated asks'}
                               </span>
                             ) : (
                               <span className="text-gray-400 italic">{answer.status}</span>
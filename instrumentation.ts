@@ -0,0 +1,26 @@
+/**
+ * Next.js server start-up hook
+ * With EVENT_BUS=ipc the standalone WebSocket server is forked from the
+ * Next.js server and attached to the orchestrator's event bus, so it sees
+ * every OrchestratorEvent over IPC instead of the /api/v1/live stream.
+ */
+export async function register() {
+  if (process.env.NEXT_RUNTIME !== 'nodejs' || process.env.EVENT_BUS !== 'ipc') {
+    return;
+  }
+
+  const { fork } = await import('child_process');
+  const path = await import('path');
+  const { attachEventProcess } = await import('./lib/orchestrator/registry');
+
+  const child = fork(path.join(process.cwd(), 'scripts/websocket-server.js'), [], {
+    env: process.env,
+  });
+  attachEventProcess(child);
+  console.log(`Forked WebSocket server (pid ${child.pid}) on the IPC event bus`);
+
+  child.on('exit', (code) => {
+    console.warn(`WebSocket server exited with code ${code}`);
+  });
+  process.on('exit', () => child.kill());
+}
@@ -0,0 +1,19 @@
+/** @type {import('jest').Config} */
+module.exports = {
+  preset: 'ts-jest',
+  testEnvironment: 'node',
+  roots: ['<rootDir>/lib', '<rootDir>/app'],
+  moduleNameMapper: {
+    '^@/(.*)$': '<rootDir>/$1',
+  },
+  transform: {
+    '^.+\\.tsx?$': [
+      'ts-jest',
+      {
+        // Next.js compiles with the bundler resolver; tests run as CommonJS
+        tsconfig: { module: 'commonjs', moduleResolution: 'node', jsx: 'react-jsx' },
+        diagnostics: false,
+      },
+    ],
+  },
+};
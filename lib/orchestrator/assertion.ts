@@ -0,0 +1,153 @@
+import { RedFlagAssertion } from '../types';
+
+/**
+ * Assertion Detection
+ * NegEx/ConText-style classification of a symptom mention: is it negated,
+ * who experiences it (patient or someone else), and is it current,
+ * historical or hypothetical. Only affirmed mentions should escalate.
+ */
+
+export interface AssertionContext {
+  proxyCaller?: boolean; // Caller speaks for the patient (e.g. a parent)
+}
+
+// Words scanned on each side of a mention for negation triggers
+const NEGATION_WINDOW = 6;
+
+const PRE_NEGATION =
+  /\b(no|not|never|without|denies|deny|denied|negative for|free of|absence of|ruled out|none|nor|don'?t have|do not have|doesn'?t have|does not have|haven'?t had|have not had|hasn'?t had|didn'?t have|did not have|haven'?t been|not having|no longer|isn'?t|wasn'?t|aren'?t)\b/;
+const POST_NEGATION = /\b(denied|ruled out|not present|is gone|went away|has gone|has resolved|resolved)\b/;
+// Phrases that contain a negation word but do not negate ("not only", "no change")
+const PSEUDO_NEGATION = /\b(not only|not just|no doubt|no change|not sure|not certain|no idea|not necessarily|no matter)\b/g;
+
+// "don't want to live far from the clinic" negates where or with whom to
+// live, not living itself, unless the clause still says it is about life
+const LIVE_MENTION = /\blive$/;
+const LIVE_COMPLEMENT =
+  /^\s*(far|near|close|next to|nearby|in|at|with|there|here|alone|by myself|on my own|around|somewhere|anywhere|out of)\b/;
+const LIFE_ITSELF = /\b(anymore|any more|like this|at all)\b/;
+
+// Clause boundaries that stop negation and hypothetical scope
+const TERMINATORS =
+  /\b(but|however|although|though|except|apart from|aside from|yet|which|now i|i have|i'?ve|i'?m|i am|i feel|i got)\b/g;
+
+const OTHER_EXPERIENCER =
+  /\b(my |his |her |their )?(father|dad|mother|mom|mum|brother|sister|husband|wife|partner|boyfriend|girlfriend|friend|grandmother|grandma|grandfather|grandpa|aunt|uncle|cousin|neighbor|neighbour|coworker|roommate|family|parents?|son|daughter|child|kid|baby|he|she|they|his|her|their|someone|somebody)\b/g;
+const CHILD_EXPERIENCER = /\b(son|daughter|child|kid|baby|he|she|his|her)\b/;
+const SELF_EXPERIENCER = /\b(i|i'?m|i'?ve|i'?d|me|my|myself|mine)\b/g;
+
+const HISTORICAL =
+  /\b(history of|used to|years ago|months ago|weeks ago|a year ago|long time ago|in the past|previously|back in|when i was|as a kid|as a child|last year|years back|once before|had a history|was diagnosed|in (19|20)\d\d)\b/;
+const CURRENT = /\b(now|right now|currently|today|tonight|this morning|this afternoon|this evening|still|again|since|started|keeps|keep|ongoing)\b/;
+// "if" that introduces uncertainty about a current symptom, not a hypothetical
+const PSEUDO_HYPOTHETICAL = /\b(not sure if|wondering if|see if|check if|as if)\b/g;
+const HYPOTHETICAL =
+  /\b(if|in case|what if|what should i do if|worried about|afraid of|scared of|concerned about|could it be|should i|would i|might get)\b/;
+
+/**
+ * Classify the mention at [offset, offset + length) within text
+ */
+export function assessMention(
+  text: string,
+  offset: number,
+  length: number,
+  context: AssertionContext = {}
+): RedFlagAssertion {
+  // Curly apostrophes fold to straight ones; spans keep their offsets
+  const lower = text.toLowerCase().replace(/’/g, "'");
+  const { start, end } = sentenceBounds(lower, offset, offset + length);
+  const before = lower.slice(start, offset);
+  const after = lower.slice(offset + length, end);
+  const sentence = lower.slice(start, end);
+
+  const mention = lower.slice(offset, offset + length);
+  const negated = isNegated(before, after) || isAboutWhereToLive(mention, after);
+  const experiencer = findExperiencer(before, context);
+  const hypotheticalScope = afterLastTerminator(before).replace(PSEUDO_HYPOTHETICAL, ' ');
+  const temporality = HYPOTHETICAL.test(hypotheticalScope)
+    ? 'hypothetical'
+    : HISTORICAL.test(sentence) && !CURRENT.test(sentence)
+      ? 'historical'
+      : 'current';
+
+  return {
+    status: negated
+      ? 'negated'
+      : experiencer === 'other'
+        ? 'other_experiencer'
+        : temporality !== 'current'
+          ? temporality
+          : 'affirmed',
+    negated,
+    experiencer,
+    temporality,
+  };
+}
+
+function isNegated(before: string, after: string): boolean {
+  const preScope = lastWords(afterLastTerminator(before).replace(PSEUDO_NEGATION, ' '), NEGATION_WINDOW);
+  if (PRE_NEGATION.test(preScope)) {
+    return true;
+  }
+
+  const postScope = firstWords(beforeFirstTerminator(after), NEGATION_WINDOW);
+  return POST_NEGATION.test(postScope);
+}
+
+function isAboutWhereToLive(mention: string, after: string): boolean {
+  const clause = beforeFirstTerminator(after);
+  return LIVE_MENTION.test(mention) && LIVE_COMPLEMENT.test(clause) && !LIFE_ITSELF.test(clause);
+}
+
+/**
+ * The nearest experiencer cue before the mention wins:
+ * "my father had a stroke and I have chest pain" → patient
+ */
+function findExperiencer(before: string, context: AssertionContext): 'patient' | 'other' {
+  const other = Array.from(before.matchAll(OTHER_EXPERIENCER)).pop();
+  const otherIndex = other ? other.index! : -1;
+
+  // "my" only counts as self when it is not part of "my father"
+  let selfIndex = -1;
+  for (const match of before.matchAll(SELF_EXPERIENCER)) {
+    if (match.index !== otherIndex) selfIndex = match.index!;
+  }
+
+  if (otherIndex === -1 || selfIndex > otherIndex) {
+    return 'patient';
+  }
+
+  // A parent calling about their child is describing the patient
+  if (context.proxyCaller && CHILD_EXPERIENCER.test(other![0])) {
+    return 'patient';
+  }
+
+  return 'other';
+}
+
+function sentenceBounds(text: string, from: number, to: number): { start: number; end: number } {
+  const boundary = /[.!?;\n]/;
+  let start = from;
+  while (start > 0 && !boundary.test(text[start - 1])) start--;
+  let end = to;
+  while (end < text.length && !boundary.test(text[end])) end++;
+  return { start, end };
+}
+
+function afterLastTerminator(text: string): string {
+  const last = Array.from(text.matchAll(TERMINATORS)).pop();
+  return last ? text.slice(last.index! + last[0].length) : text;
+}
+
+function beforeFirstTerminator(text: string): string {
+  const first = text.match(new RegExp(TERMINATORS.source));
+  return first ? text.slice(0, first.index) : text;
+}
+
+function lastWords(text: string, count: number): string {
+  return text.trim().split(/\s+/).slice(-count).join(' ');
+}
+
+function firstWords(text: string, count: number): string {
+  return text.trim().split(/\s+/).slice(0, count).join(' ');
+}
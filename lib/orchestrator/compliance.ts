@@ -0,0 +1,87 @@
+/**
+ * Verbatim Question Compliance
+ * Checks that an agent utterance asks IntakeQuestion.verbatim as written.
+ * The LLM may add a short lead-in or closing ("Thanks, Jane."), but the
+ * question itself must appear word for word, up to a tolerance of edited
+ * words. The retry/replace policy is applied by the caller.
+ */
+
+// Fraction of the question's words that may be inserted, dropped or changed
+export const DEFAULT_VERBATIM_TOLERANCE = 0.1;
+// LLM regenerations before the raw verbatim text is spoken instead
+export const DEFAULT_MAX_REGENERATIONS = 1;
+
+// Contractions expanded so "What's" matches "What is"
+const CONTRACTIONS: Array<[RegExp, string]> = [
+  [/\bcan't\b/g, 'can not'],
+  [/\bwon't\b/g, 'will not'],
+  [/n't\b/g, ' not'],
+  [/'re\b/g, ' are'],
+  [/'m\b/g, ' am'],
+  [/'ve\b/g, ' have'],
+  [/'ll\b/g, ' will'],
+  [/'d\b/g, ' would'],
+  [/'s\b/g, ' is'],
+];
+
+export interface VerbatimCheck {
+  compliant: boolean;
+  score: number; // 1 = verbatim, 0 = none of the question's words in order
+  edits: number; // Word edits between the question and its closest span
+}
+
+/**
+ * Compare an utterance (text or SSML) with the question it should ask
+ */
+export function checkVerbatim(
+  verbatim: string,
+  utterance: string,
+  tolerance: number = DEFAULT_VERBATIM_TOLERANCE
+): VerbatimCheck {
+  const expected = words(verbatim);
+  if (expected.length === 0) {
+    return { compliant: true, score: 1, edits: 0 };
+  }
+
+  const edits = spanEditDistance(expected, words(utterance));
+  const score = Math.max(0, 1 - edits / expected.length);
+
+  return { compliant: score >= 1 - tolerance, score, edits };
+}
+
+/**
+ * Lowercased words without punctuation, contractions or SSML markup
+ */
+function words(text: string): string[] {
+  let normalized = text
+    .replace(/<[^>]*>/g, ' ')
+    .toLowerCase()
+    .replace(/’/g, "'");
+  for (const [pattern, expansion] of CONTRACTIONS) {
+    normalized = normalized.replace(pattern, expansion);
+  }
+
+  return normalized
+    .replace(/'/g, '')
+    .split(/[^a-z0-9]+/)
+    .filter(Boolean);
+}
+
+/**
+ * Word edit distance between `expected` and the closest contiguous span
+ * of `actual` (words before and after the span are free)
+ */
+function spanEditDistance(expected: string[], actual: string[]): number {
+  let previous: number[] = new Array(actual.length + 1).fill(0);
+
+  for (let i = 1; i <= expected.length; i++) {
+    const current: number[] = [i];
+    for (let j = 1; j <= actual.length; j++) {
+      const substitution = previous[j - 1] + (expected[i - 1] === actual[j - 1] ? 0 : 1);
+      current.push(Math.min(substitution, previous[j] + 1, current[j - 1] + 1));
+    }
+    previous = current;
+  }
+
+  return Math.min(...previous);
+}
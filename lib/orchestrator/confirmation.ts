@@ -0,0 +1,87 @@
+import { IntakeQuestion, SlotAnswer } from '../types';
+import { ExtractedValue, ExtractionContext, extractValue, isNonAnswer } from './extractor';
+
+/**
+ * Read-back Confirmation
+ * Builds the read-back prompt for critical slots (IntakeQuestion.confirm).
+ * The yes/no loop itself is driven by the Orchestrator.
+ */
+
+export const DEFAULT_MAX_CONFIRMATION_ATTEMPTS = 2;
+
+// The rejection that may precede a replacement value ("No, it's ...")
+const REJECTION_PREFIX =
+  /^\s*(?:(?:no|nope|nah|wrong|incorrect|that'?s (?:wrong|incorrect|not (?:right|correct)))\b[\s,.!]*)+/i;
+
+// Spoken labels for slots that are commonly read back
+const SLOT_LABELS: Record<string, string> = {
+  dob: 'date of birth',
+  allergies: 'medication allergies',
+  medications: 'current medications',
+  callback_number: 'callback number',
+  full_name: 'name',
+};
+
+/**
+ * Build the read-back prompt for a filled slot
+ */
+export function buildReadBack(question: IntakeQuestion, answer: SlotAnswer): string {
+  const label = spokenSlotLabel(question.slot);
+
+  if (Array.isArray(answer.value)) {
+    if (answer.value.length === 0) {
+      return `Just to confirm, I have that you have no ${label}. Is that correct?`;
+    }
+    return `Just to confirm, I have your ${label} as ${joinSpoken(answer.value)}. Is that correct?`;
+  }
+
+  if (question.validation?.type === 'date') {
+    return `Just to confirm, I have your ${label} as ${formatSpokenDate(answer.value)}. Is that correct?`;
+  }
+
+  if (typeof answer.value === 'boolean') {
+    return `Just to confirm, you answered ${answer.value ? 'yes' : 'no'} to: ${question.verbatim} Is that correct?`;
+  }
+
+  return `Just to confirm, I have your ${label} as ${answer.value}. Is that correct?`;
+}
+
+/**
+ * The value a patient gives while rejecting a read-back ("No, it's May
+ * 15th, 1982"); null for a bare rejection or a non-answer
+ */
+export function extractReplacementValue(
+  question: IntakeQuestion,
+  text: string,
+  context: ExtractionContext = {}
+): ExtractedValue | null {
+  const rest = text.replace(REJECTION_PREFIX, '').trim();
+  if (!rest || isNonAnswer(rest)) {
+    return null;
+  }
+
+  return extractValue(question.slot, rest, question.validation, { ...context, askedSlot: question.slot });
+}
+
+export function spokenSlotLabel(slot: string): string {
+  return SLOT_LABELS[slot] || slot.replace(/_/g, ' ');
+}
+
+export function joinSpoken(items: string[]): string {
+  if (items.length === 1) return items[0];
+  return `${items.slice(0, -1).join(', ')} and ${items[items.length - 1]}`;
+}
+
+export function formatSpokenDate(value: string): string {
+  const date = new Date(`${value}T00:00:00Z`);
+  if (Number.isNaN(date.getTime())) {
+    return value;
+  }
+
+  return new Intl.DateTimeFormat('en-US', {
+    month: 'long',
+    day: 'numeric',
+    year: 'numeric',
+    timeZone: 'UTC',
+  }).format(date);
+}
@@ -0,0 +1,147 @@
+import { IntakeQuestion, SlotAnswer, SlotEngineState, SlotRevision } from '../types';
+import {
+  ExtractedValue,
+  ExtractionContext,
+  extractValue,
+  extractVolunteeredValue,
+} from './extractor';
+import { findDayOfMonth, parseYesNo } from './normalizers';
+
+/**
+ * Patient Corrections
+ * Detects mid-call corrections of an earlier answer ("actually, my
+ * birthday is the 15th"), works out which slot they target and re-extracts
+ * its value. The Orchestrator applies the result and keeps the history.
+ */
+
+const CORRECTION_CUE =
+  /\b(?:actually|no,? wait|wait,? no|i meant|i mean|sorry,? i meant|correction|let me correct (?:that|myself)|that'?s (?:wrong|not right))\b[,.]?\s*/i;
+
+// Words that point at the slot being corrected
+const SLOT_KEYWORDS: Record<string, RegExp> = {
+  full_name: /\b(?:name|spell(?:ed|ing)?)\b/i,
+  dob: /\b(?:birthday|birth ?date|date of birth|born|dob)\b/i,
+  callback_number: /\b(?:number|phone)\b/i,
+  chief_complaint: /\b(?:here for|calling about|calling because|reason)\b/i,
+  allergies: /\b(?:allergic|allerg(?:y|ies))\b/i,
+  medications: /\b(?:medications?|meds|i take|i'?m taking|i'?m on)\b/i,
+};
+
+export interface SlotCorrection {
+  question: IntakeQuestion;
+  value: ExtractedValue;
+  cue: string;
+}
+
+/**
+ * Text after a correction cue, or null when the turn does not correct anything
+ */
+export function detectCorrection(text: string): { cue: string; rest: string } | null {
+  const match = text.match(CORRECTION_CUE);
+  if (!match) {
+    return null;
+  }
+
+  return {
+    cue: match[0].trim().replace(/[,.]$/, ''),
+    rest: text.slice(match.index! + match[0].length),
+  };
+}
+
+/**
+ * Resolve a correction to an answered slot and its new value. The slot is
+ * the one named in the turn, else one whose cue phrase matches. A turn that
+ * names neither ("I mean I take lisinopril" while asked about medications)
+ * is an answer to the current question, not a correction.
+ */
+export function findCorrection(
+  state: SlotEngineState,
+  text: string,
+  context: ExtractionContext = {}
+): SlotCorrection | null {
+  const correction = detectCorrection(text);
+  // "Actually, no" answers a read-back rather than correcting a value
+  const rest = correction?.rest.trim() || '';
+  if (!correction || !rest || (rest.split(/\s+/).length <= 2 && parseYesNo(rest) !== null)) {
+    return null;
+  }
+
+  const current = state.questions[state.current_question_index];
+  if (current && !isAnswered(state, current) && SLOT_KEYWORDS[current.slot]?.test(rest)) {
+    return null;
+  }
+
+  const answered = answeredQuestions(state);
+  const question =
+    answered.find((q) => SLOT_KEYWORDS[q.slot]?.test(rest)) ||
+    answered.find((q) => extractVolunteeredValue(q.slot, rest));
+  if (!question) {
+    return null;
+  }
+
+  const value = extractCorrectedValue(question, rest, state.snapshot.answers[question.slot], context);
+  return value ? { question, value, cue: correction.cue } : null;
+}
+
+/**
+ * The answer being replaced, as a revision entry
+ */
+export function createRevision(
+  answer: SlotAnswer,
+  changedBy: SlotRevision['changed_by'],
+  turnId?: string
+): SlotRevision {
+  return {
+    value: answer.value,
+    status: answer.status,
+    confidence: answer.confidence,
+    evidence_turn_ids: answer.evidence_turn_ids,
+    changed_at: new Date().toISOString(),
+    changed_by: changedBy,
+    ...(turnId && { turn_id: turnId }),
+  };
+}
+
+/**
+ * Questions with an answer on record, most recently answered first
+ */
+function answeredQuestions(state: SlotEngineState): IntakeQuestion[] {
+  const turnOrder = new Map(state.turns.map((turn, index) => [turn.turn_id, index]));
+  const lastEvidence = (answer: SlotAnswer) =>
+    Math.max(-1, ...answer.evidence_turn_ids.map((id) => turnOrder.get(id) ?? -1));
+
+  return state.questions
+    .filter((q) => isAnswered(state, q))
+    .sort(
+      (a, b) =>
+        lastEvidence(state.snapshot.answers[b.slot]) - lastEvidence(state.snapshot.answers[a.slot])
+    );
+}
+
+function isAnswered(state: SlotEngineState, question: IntakeQuestion): boolean {
+  const answer = state.snapshot.answers[question.slot];
+  return !!answer && answer.status !== 'unknown' && answer.evidence_turn_ids.length > 0;
+}
+
+function extractCorrectedValue(
+  question: IntakeQuestion,
+  text: string,
+  previous: SlotAnswer,
+  context: ExtractionContext
+): ExtractedValue | null {
+  const value =
+    extractVolunteeredValue(question.slot, text) ||
+    extractValue(question.slot, text, question.validation, { ...context, askedSlot: question.slot });
+  if (value) {
+    return value;
+  }
+
+  // "The 15th": keep the month and year already on record
+  const day = findDayOfMonth(text);
+  if (question.validation?.type === 'date' && day && typeof previous.value === 'string') {
+    const [year, month] = previous.value.split('-');
+    return { value: `${year}-${month}-${String(day).padStart(2, '0')}`, confidence: 0.8 };
+  }
+
+  return null;
+}
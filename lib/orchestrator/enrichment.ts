@@ -0,0 +1,321 @@
+import { Entity, Redaction, TranscriptTurn } from '../types';
+import { normalizeDate, normalizePhone } from './normalizers';
+import { findMedicationMentions } from './extractor';
+import symptomLexicon from '../../shared/lexicons/symptoms.json';
+
+/**
+ * Transcript Enrichment
+ * Detects entities (DOB, phone, SSN, address, medications, symptoms) in a
+ * transcript turn and derives redaction spans and a redacted text variant
+ * that is safe for logs and the SSE stream.
+ */
+
+export interface EnrichmentContext {
+  expectedSlot?: string; // Slot of the question being answered, e.g. 'dob'
+}
+
+// Entity types whose spans are masked in redacted_text
+export const REDACTED_ENTITY_TYPES = ['dob', 'phone', 'ssn', 'address'];
+
+const CONFIDENCE = {
+  ssn: 0.95,
+  ssnWithCue: 0.9,
+  phone: 0.9,
+  spokenPhone: 0.8,
+  dobWithCue: 0.9,
+  date: 0.75,
+  address: 0.85,
+  medication: 0.85,
+  symptom: 0.8,
+};
+
+const DIGIT_WORDS: Record<string, string> = {
+  zero: '0', oh: '0', one: '1', two: '2', three: '3', four: '4',
+  five: '5', six: '6', seven: '7', eight: '8', nine: '9',
+};
+
+const DIGIT_TOKEN = `(?:\\d+|${Object.keys(DIGIT_WORDS).join('|')}|double|triple)`;
+const DIGIT_RUN = new RegExp(`\\(?\\b${DIGIT_TOKEN}\\b(?:[\\s().,-]*\\b${DIGIT_TOKEN}\\b)*`, 'gi');
+const SSN_FORMATTED = /\b\d{3}[- ]\d{2}[- ]\d{4}\b/g;
+const SSN_CUE = /\b(social security|social|ssn|s s n)\b/i;
+const BIRTH_CUE = /\b(born|birth|birthday|dob|d o b)\b/i;
+const NUMERIC_DATE = /\b(?:\d{4}-\d{1,2}-\d{1,2}|\d{1,2}[/.-]\d{1,2}[/.-](?:\d{4}|\d{2}))\b/g;
+const MONTH_TOKEN = /^(jan(uary)?|feb(ruary)?|mar(ch)?|apr(il)?|may|june?|july?|aug(ust)?|sep(t(ember)?)?|oct(ober)?|nov(ember)?|dec(ember)?)$/i;
+const ADDRESS =
+  /\b\d{1,6}\s+(?:[A-Za-z0-9.'-]+\s+){0,4}?(?:street|st|avenue|ave|road|rd|boulevard|blvd|lane|ln|drive|dr|court|ct|way|place|pl|terrace|circle|parkway|highway|hwy)\b\.?(?:,?\s*(?:apt|apartment|unit|suite|#)\.?\s*#?\w+)?(?:\s+\d{5}(?:-\d{4})?)?|\bp\.?\s?o\.?\s+box\s+\d+\b/gi;
+
+const SYMPTOMS = symptomLexicon.symptoms.map((symptom) => {
+  const terms = [symptom.name, ...symptom.aliases]
+    .sort((a, b) => b.length - a.length)
+    .map((term) => term.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'));
+  return { name: symptom.name, pattern: new RegExp(`\\b(?:${terms.join('|')})\\b`, 'gi') };
+});
+
+/**
+ * Attach entities, redactions and redacted_text to a turn.
+ * Turns that already carry entities or redactions are left as they are.
+ */
+export function enrichTurn(turn: TranscriptTurn, context: EnrichmentContext = {}): TranscriptTurn {
+  if (turn.entities || turn.redactions) {
+    return {
+      ...turn,
+      redacted_text: turn.redacted_text ?? redactText(turn.text, turn.redactions || []),
+    };
+  }
+
+  const entities = detectEntities(turn.text, context);
+  const redactions: Redaction[] = entities
+    .filter((entity) => REDACTED_ENTITY_TYPES.includes(entity.type))
+    .map((entity) => ({
+      type: entity.type,
+      offset: entity.offset,
+      length: entity.length,
+      confidence: entity.confidence,
+    }));
+
+  return {
+    ...turn,
+    entities,
+    redactions,
+    redacted_text: redactText(turn.text, redactions),
+  };
+}
+
+/**
+ * Detect entities in an utterance, ordered by offset.
+ * Overlapping detections keep the earlier-listed type (SSN over phone, ...).
+ */
+export function detectEntities(text: string, context: EnrichmentContext = {}): Entity[] {
+  const detected = [
+    ...detectIdentifiers(text),
+    ...detectDates(text, context),
+    ...detectAddresses(text),
+    ...findMedicationMentions(text).map((mention) => ({
+      type: 'medication',
+      value: mention.name,
+      confidence: CONFIDENCE.medication,
+      offset: mention.offset,
+      length: mention.length,
+    })),
+    ...detectSymptoms(text),
+  ];
+
+  const entities: Entity[] = [];
+  for (const entity of detected) {
+    if (!entities.some((kept) => overlaps(kept, entity))) {
+      entities.push(entity);
+    }
+  }
+
+  return entities.sort((a, b) => a.offset - b.offset);
+}
+
+/**
+ * Mask redaction spans, e.g. "call me at [PHONE]"
+ */
+export function redactText(text: string, redactions: Redaction[]): string {
+  let result = text;
+  const spans = [...redactions].sort((a, b) => b.offset - a.offset);
+
+  for (const span of spans) {
+    result =
+      result.slice(0, span.offset) +
+      `[${span.type.toUpperCase()}]` +
+      result.slice(span.offset + span.length);
+  }
+
+  return result;
+}
+
+/**
+ * Redacted copy of text the agent speaks (read-backs, reprompts, TTS
+ * playback). Read-backs repeat the patient's name, which entity
+ * detection cannot recognize, so known name parts are masked as well.
+ */
+export function redactSpeech(text: string, patientName?: string): string {
+  const redactions = detectEntities(text).filter((entity) => REDACTED_ENTITY_TYPES.includes(entity.type));
+  let result = redactText(text, redactions);
+
+  const nameParts = (patientName ?? '')
+    .split(/\s+/)
+    .map((part) => part.replace(/[^\p{L}'-]/gu, ''))
+    .filter((part) => part.length > 1);
+  if (nameParts.length > 0) {
+    result = result
+      .replace(new RegExp(`\\b(?:${nameParts.join('|')})\\b`, 'gi'), '[NAME]')
+      .replace(/\[NAME\](?:\s+(?:[A-Z]\.?\s+)?\[NAME\])+/g, '[NAME]');
+  }
+
+  return result;
+}
+
+/**
+ * Copy of a turn that is safe to broadcast: redacted text and no
+ * values for redacted entity types
+ */
+export function redactTurn(turn: TranscriptTurn): TranscriptTurn {
+  const { redacted_text, ...rest } = turn;
+  return {
+    ...rest,
+    text: redacted_text ?? turn.text,
+    entities: turn.entities?.filter((entity) => !REDACTED_ENTITY_TYPES.includes(entity.type)),
+  };
+}
+
+/**
+ * SSNs and phone numbers, written or spoken digit by digit
+ */
+function detectIdentifiers(text: string): Entity[] {
+  const entities: Entity[] = [];
+
+  for (const match of text.matchAll(SSN_FORMATTED)) {
+    entities.push({
+      type: 'ssn',
+      value: match[0].replace(/\D/g, ''),
+      confidence: CONFIDENCE.ssn,
+      offset: match.index!,
+      length: match[0].length,
+    });
+  }
+
+  for (const match of text.matchAll(DIGIT_RUN)) {
+    const span = match[0].replace(/[\s(),.-]+$/, '');
+    const digits = toDigits(span);
+    const offset = match.index!;
+    const before = text.slice(Math.max(0, offset - 40), offset);
+
+    if (digits.length === 9 && SSN_CUE.test(before)) {
+      entities.push({
+        type: 'ssn',
+        value: digits,
+        confidence: CONFIDENCE.ssnWithCue,
+        offset,
+        length: span.length,
+      });
+      continue;
+    }
+
+    const phone = digits.length >= 10 ? normalizePhone(span) : null;
+    if (phone?.valid) {
+      entities.push({
+        type: 'phone',
+        value: phone.value,
+        confidence: /[a-z]/i.test(span) ? CONFIDENCE.spokenPhone : CONFIDENCE.phone,
+        offset,
+        length: span.length,
+      });
+    }
+  }
+
+  return entities;
+}
+
+/**
+ * Dates, typed as 'dob' when the patient talks about their birth or is
+ * answering the date-of-birth question
+ */
+function detectDates(text: string, context: EnrichmentContext): Entity[] {
+  const isDob = context.expectedSlot === 'dob' || BIRTH_CUE.test(text);
+  const type = isDob ? 'dob' : 'date';
+  const confidence = isDob ? CONFIDENCE.dobWithCue : CONFIDENCE.date;
+  const entities: Entity[] = [];
+
+  for (const match of text.matchAll(NUMERIC_DATE)) {
+    const result = normalizeDate(match[0]);
+    if (result.valid) {
+      entities.push({ type, value: result.value, confidence, offset: match.index!, length: match[0].length });
+    }
+  }
+
+  // Spoken dates: grow a window around each month name, then trim it
+  // back to the smallest span that still parses to the same date
+  const words = Array.from(text.matchAll(/\S+/g));
+  const spanText = (start: number, end: number) =>
+    text.slice(words[start].index!, words[end].index! + words[end][0].length);
+
+  for (let i = 0; i < words.length; i++) {
+    if (!MONTH_TOKEN.test(words[i][0].replace(/[^a-z]/gi, ''))) continue;
+
+    let best: { start: number; end: number; value: string } | null = null;
+    for (let start = Math.max(0, i - 4); start <= i && !best; start++) {
+      for (let end = Math.min(words.length - 1, i + 6); end >= i && !best; end--) {
+        const result = normalizeDate(spanText(start, end));
+        if (result.valid) best = { start, end, value: result.value };
+      }
+    }
+    if (!best) continue;
+
+    while (best.start < i && sameDate(spanText(best.start + 1, best.end), best.value)) best.start++;
+    while (best.end > i && sameDate(spanText(best.start, best.end - 1), best.value)) best.end--;
+
+    const span = spanText(best.start, best.end).replace(/[,.;!?]+$/, '');
+    entities.push({
+      type,
+      value: best.value,
+      confidence,
+      offset: words[best.start].index!,
+      length: span.length,
+    });
+    i = best.end;
+  }
+
+  return entities;
+}
+
+function detectAddresses(text: string): Entity[] {
+  return Array.from(text.matchAll(ADDRESS)).map((match) => ({
+    type: 'address',
+    value: match[0].trim(),
+    confidence: CONFIDENCE.address,
+    offset: match.index!,
+    length: match[0].trim().length,
+  }));
+}
+
+/**
+ * Symptom mentions; a generic match ("pain") inside a more specific one
+ * ("chest pain") is dropped by the overlap check in detectEntities
+ */
+function detectSymptoms(text: string): Entity[] {
+  const entities: Entity[] = [];
+
+  for (const symptom of SYMPTOMS) {
+    for (const match of text.matchAll(symptom.pattern)) {
+      entities.push({
+        type: 'symptom',
+        value: symptom.name,
+        confidence: CONFIDENCE.symptom,
+        offset: match.index!,
+        length: match[0].length,
+      });
+    }
+  }
+
+  return entities.sort((a, b) => b.length - a.length);
+}
+
+function toDigits(span: string): string {
+  let digits = '';
+  let repeat = 1;
+
+  for (const token of span.toLowerCase().split(/[\s().,-]+/).filter(Boolean)) {
+    if (token === 'double' || token === 'triple') {
+      repeat = token === 'double' ? 2 : 3;
+      continue;
+    }
+    const digit = /^\d+$/.test(token) ? token : DIGIT_WORDS[token] || '';
+    digits += repeat > 1 && digit.length === 1 ? digit.repeat(repeat) : digit;
+    repeat = 1;
+  }
+
+  return digits;
+}
+
+function sameDate(span: string, value: string): boolean {
+  const result = normalizeDate(span);
+  return result.valid && result.value === value;
+}
+
+function overlaps(a: Entity, b: Entity): boolean {
+  return a.offset < b.offset + b.length && b.offset < a.offset + a.length;
+}
@@ -0,0 +1,70 @@
+import { EventEmitter } from 'events';
+import type { ChildProcess } from 'child_process';
+import type { OrchestratorEvent } from './index';
+import { InMemoryEventBus, IpcEventBus, createEventBus } from './event-bus';
+
+const event: OrchestratorEvent = {
+  type: 'snapshot_updated',
+  call_id: 'call_test',
+  timestamp: '2026-01-01T00:00:00.000Z',
+  data: {},
+};
+
+// Stands in for a forked process: messages it sends come back through `receive`
+function fakeChild() {
+  const child = new EventEmitter() as EventEmitter & { connected: boolean; send: jest.Mock };
+  child.connected = true;
+  child.send = jest.fn();
+  return {
+    child: child as unknown as ChildProcess,
+    sent: child.send,
+    receive: (message: unknown) => child.emit('message', message),
+  };
+}
+
+describe('IpcEventBus', () => {
+  it('relays published events to attached processes', () => {
+    const bus = new IpcEventBus();
+    const { child, sent } = fakeChild();
+    bus.attach(child);
+
+    bus.publish(event);
+
+    expect(sent).toHaveBeenCalledWith({ type: 'orchestrator_event', event });
+  });
+
+  it('delivers events from one process locally and to the others', () => {
+    const bus = new IpcEventBus();
+    const from = fakeChild();
+    const other = fakeChild();
+    bus.attach(from.child);
+    bus.attach(other.child);
+    const listener = jest.fn();
+    bus.subscribe('call_test', listener);
+
+    from.receive({ type: 'orchestrator_event', event });
+    from.receive({ type: 'unrelated' });
+
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(listener).toHaveBeenCalledWith(event);
+    expect(other.sent).toHaveBeenCalledWith({ type: 'orchestrator_event', event });
+    expect(from.sent).not.toHaveBeenCalled();
+  });
+});
+
+describe('createEventBus', () => {
+  const env = process.env;
+
+  afterEach(() => {
+    process.env = env;
+  });
+
+  it('follows EVENT_BUS', () => {
+    process.env = { ...env, EVENT_BUS: 'ipc' };
+    expect(createEventBus()).toBeInstanceOf(IpcEventBus);
+
+    process.env = { ...env, EVENT_BUS: 'memory' };
+    expect(createEventBus()).not.toBeInstanceOf(IpcEventBus);
+    expect(createEventBus()).toBeInstanceOf(InMemoryEventBus);
+  });
+});
@@ -0,0 +1,168 @@
+import type { ChildProcess } from 'child_process';
+import type { OrchestratorEvent } from './index';
+
+export type OrchestratorEventListener = (event: OrchestratorEvent) => void;
+
+/**
+ * Event Bus
+ * Fan-out of OrchestratorEvents to subscribers keyed by call_id.
+ * Subscribing with call_id '*' receives events for every call.
+ */
+export interface EventBus {
+  publish(event: OrchestratorEvent): void;
+  subscribe(callId: string, listener: OrchestratorEventListener): void;
+  unsubscribe(callId: string, listener: OrchestratorEventListener): void;
+  clear(callId: string): void;
+}
+
+/**
+ * In-process event bus
+ */
+export class InMemoryEventBus implements EventBus {
+  private listeners: Map<string, OrchestratorEventListener[]> = new Map();
+
+  publish(event: OrchestratorEvent): void {
+    this.dispatch(event);
+  }
+
+  subscribe(callId: string, listener: OrchestratorEventListener): void {
+    if (!this.listeners.has(callId)) {
+      this.listeners.set(callId, []);
+    }
+    this.listeners.get(callId)!.push(listener);
+  }
+
+  unsubscribe(callId: string, listener: OrchestratorEventListener): void {
+    const listeners = this.listeners.get(callId);
+    if (listeners) {
+      const index = listeners.indexOf(listener);
+      if (index > -1) {
+        listeners.splice(index, 1);
+      }
+    }
+  }
+
+  clear(callId: string): void {
+    this.listeners.delete(callId);
+  }
+
+  /**
+   * Deliver an event to local call-specific and global listeners
+   */
+  protected dispatch(event: OrchestratorEvent): void {
+    const listeners = this.listeners.get(event.call_id);
+    if (listeners) {
+      for (const listener of [...listeners]) {
+        try {
+          listener(event);
+        } catch (error) {
+          console.error('Error in event listener:', error);
+        }
+      }
+    }
+
+    // Also emit to global listeners
+    const globalListeners = this.listeners.get('*');
+    if (globalListeners) {
+      for (const listener of [...globalListeners]) {
+        try {
+          listener(event);
+        } catch (error) {
+          console.error('Error in global event listener:', error);
+        }
+      }
+    }
+  }
+}
+
+/**
+ * IPC event bus
+ * Delivers events locally and relays them over Node's IPC channel, so a
+ * forked process (e.g. the standalone WebSocket server) and its parent see
+ * the same event stream. A parent can attach several children and acts as
+ * the hub between them.
+ */
+export class IpcEventBus extends InMemoryEventBus {
+  private children: Set<ChildProcess> = new Set();
+
+  constructor() {
+    super();
+
+    if (typeof process.send === 'function') {
+      process.on('message', (message: unknown) => {
+        const event = this.unwrap(message);
+        if (event) {
+          this.dispatch(event);
+          this.relayToChildren(event);
+        }
+      });
+    }
+  }
+
+  publish(event: OrchestratorEvent): void {
+    this.dispatch(event);
+
+    if (typeof process.send === 'function') {
+      process.send(this.wrap(event));
+    }
+    this.relayToChildren(event);
+  }
+
+  /**
+   * Relay events to and from a forked child process
+   */
+  attach(child: ChildProcess): void {
+    this.children.add(child);
+
+    child.on('message', (message: unknown) => {
+      const event = this.unwrap(message);
+      if (!event) return;
+
+      this.dispatch(event);
+      if (typeof process.send === 'function') {
+        process.send(this.wrap(event));
+      }
+      this.relayToChildren(event, child);
+    });
+
+    child.on('exit', () => {
+      this.children.delete(child);
+    });
+  }
+
+  private relayToChildren(event: OrchestratorEvent, except?: ChildProcess): void {
+    for (const child of this.children) {
+      if (child !== except && child.connected) {
+        child.send(this.wrap(event));
+      }
+    }
+  }
+
+  private wrap(event: OrchestratorEvent): IpcEventMessage {
+    return { type: 'orchestrator_event', event };
+  }
+
+  private unwrap(message: unknown): OrchestratorEvent | null {
+    const ipcMessage = message as IpcEventMessage | undefined;
+    if (ipcMessage && ipcMessage.type === 'orchestrator_event' && ipcMessage.event) {
+      return ipcMessage.event;
+    }
+    return null;
+  }
+}
+
+interface IpcEventMessage {
+  type: 'orchestrator_event';
+  event: OrchestratorEvent;
+}
+
+/**
+ * Create the event bus configured by EVENT_BUS ('memory' | 'ipc')
+ */
+export function createEventBus(): EventBus {
+  if (process.env.EVENT_BUS === 'ipc') {
+    return new IpcEventBus();
+  }
+
+  return new InMemoryEventBus();
+}
@@ -0,0 +1,48 @@
+import { extractValue, extractVolunteeredValue } from './extractor';
+
+const NAME = { type: 'string' as const };
+const LIST = { type: 'array' as const };
+
+describe('extractValue: full_name', () => {
+  it.each(['I am short of breath', 'chest pain but no shortness of breath', "I'm taking lisinopril"])(
+    'finds no name in "%s"',
+    (text) => {
+      expect(extractValue('full_name', text, NAME, { askedSlot: 'full_name' })).toBeNull();
+    }
+  );
+
+  it.each([
+    ['my name is Jane Doe', 'Jane Doe'],
+    ["I'm Jane Doe", 'Jane Doe'],
+    ['Jane Doe', 'Jane Doe'],
+  ])('reads the name in "%s"', (text, name) => {
+    expect(extractValue('full_name', text, NAME, { askedSlot: 'full_name' })?.value).toBe(name);
+  });
+
+  it('only takes a name at another question after an explicit cue', () => {
+    expect(extractVolunteeredValue('full_name', 'I am Short of breath')).toBeNull();
+    expect(extractVolunteeredValue('full_name', 'This is Jane Doe')?.value).toBe('Jane Doe');
+  });
+});
+
+describe('extractValue: drug lists', () => {
+  it.each(['I do not take anything', 'nothing', "I'm not taking anything", 'no'])(
+    'reads "%s" as none',
+    (text) => {
+      expect(extractValue('medications', text, LIST, { askedSlot: 'medications' })?.value).toEqual([]);
+    }
+  );
+
+  it('drops a leading yes and cue words from list items', () => {
+    const value = extractValue('allergies', 'yes, to the antibiotic they gave me last year', LIST, {
+      askedSlot: 'allergies',
+    });
+    expect(value?.value).toEqual(['the antibiotic they gave me last year']);
+  });
+
+  it('keeps named drugs', () => {
+    expect(
+      extractValue('medications', 'yeah um metformin and lisinopril', LIST, { askedSlot: 'medications' })?.value
+    ).toEqual(['metformin', 'lisinopril']);
+  });
+});
@@ -0,0 +1,485 @@
+import { IntakeQuestion, SlotAnswer, TranscriptTurn } from '../types';
+import { normalizeBirthDate, normalizeDate, normalizeList, normalizePhone, parseYesNo } from './normalizers';
+import medicationLexicon from '../../shared/lexicons/medications.json';
+import symptomLexicon from '../../shared/lexicons/symptoms.json';
+
+/**
+ * Rule-based Slot Extractor
+ * Deterministic, LLM-free extraction of slot values from patient turns.
+ * Used when no LLM is configured and as a cross-check on LLM extractions.
+ */
+
+export interface ExtractedValue {
+  value: any;
+  confidence: number;
+}
+
+export interface ExtractionContext {
+  callerNumber?: string; // Used for "this number" / "the number I'm calling from"
+  askedSlot?: string; // Slot of the question being answered; names without a cue only count for it
+}
+
+export interface MedicationMention {
+  name: string; // Generic name from the lexicon
+  offset: number;
+  length: number;
+}
+
+interface DrugEntry {
+  name: string;
+  aliases: string[];
+  class: string;
+  pattern: RegExp;
+}
+
+// Confidence per extraction rule; single words and free text stay
+// low enough that the slot engine keeps treating them with care
+const CONFIDENCE = {
+  date: 0.9,
+  phone: 0.9,
+  callerNumber: 0.8,
+  nameWithCue: 0.85,
+  name: 0.75,
+  singleName: 0.5,
+  boolean: 0.85,
+  none: 0.9,
+  lexicon: 0.85,
+  list: 0.6,
+  freeText: 0.7,
+  nonAnswer: 0.8,
+};
+
+const NAME_CUES =
+  /\b(?:my name is|my name's|name is|this is|call me|(?:his|her|their|the child's|my (?:son|daughter)'s) name is)\s+/gi;
+// "I'm Jane Doe" answers the name question, but names nobody elsewhere ("I'm short of breath")
+const SELF_INTRODUCTION = /^\s*(?:i'?m|i am|it'?s|it is)\s+/i;
+const FILLERS = ['um', 'uh', 'er', 'so', 'well', 'yeah', 'yes', 'okay', 'ok', 'oh', 'hi', 'hello', 'sure'];
+const NOT_A_NAME = [
+  'not', "don't", 'dont', 'know', 'sure', 'sorry', 'what', 'no', 'the', 'a', 'an', 'my',
+  'of', 'to', 'for', 'with', 'in', 'on', 'at', 'from', 'or', 'is', 'am', 'are', 'have', 'has',
+  'pain', 'ache', 'hurts', 'sick', 'feel', 'feeling',
+];
+// Pronouns and verbs that start a sentence, not a name ("I have chest pain")
+const NOT_A_NAME_START = [
+  'i', "i'm", 'im', "i've", 'it', "it's", 'he', 'she', 'they', 'we', 'you', 'me', 'this', 'that', 'there',
+  'have', 'has', 'had', 'am', 'is', 'are', 'was', 'were', 'do', 'does', 'did', 'been', 'having',
+  'get', 'got', 'feel', 'feeling', 'need', 'want', 'think', 'hurt', 'hurts', 'can', 'will', 'just',
+];
+const CALLER_NUMBER = /\b(this (?:number|phone|one)|same (?:number|one)|(?:number|phone) i'm calling (?:from|on)|calling from)\b/i;
+const NONE_ANSWER =
+  /\b(no|none|nope|nothing|not any|no known|not that i know of|i (?:don'?t|do not) (?:have|take) any(?:thing)?|i'?m not (?:on|taking) any(?:thing)?|i am not (?:on|taking) any(?:thing)?)\b/i;
+// Non-answers: the patient will not say, or does not know
+const DECLINED =
+  /\b(i'?d rather not|i would rather not|(?:i )?prefer not to|i don'?t want to (?:say|answer|tell|share|talk about)|none of your business|that'?s private|skip (?:that|this|it)|pass on (?:that|this))\b/i;
+const UNKNOWN_TO_PATIENT =
+  /\b(i don'?t know|i do not know|i'?m not sure|not sure|no idea|i can'?t remember|i don'?t remember|i forget|i forgot|i can'?t recall|i don'?t recall|no clue|dunno)\b/i;
+// A bare "none" to a free-text question ("What reaction did you have?")
+const NONE_ONLY = /^\s*(?:none|nothing|nope|n\/?a|not applicable|nothing really)\s*[.!]?\s*$/i;
+// Cues that let a slot be filled from a turn answering another question
+// ("My name is Jane Doe, born 3/4/85, here for a migraine"); captures the value
+const VOLUNTEERED_DOB = /\b(?:born(?: on| in)?|date of birth is|birthday is|dob is)\s+([^;]+)/i;
+const VOLUNTEERED_PHONE = /(?:\+?1[\s.-]?)?\(?\d{3}\)?[\s.-]?\d{3}[\s.-]?\d{4}\b/;
+const VOLUNTEERED_COMPLAINT =
+  /\b(?:(?:i'?m |i am )?(?:here|calling|coming in) (?:for|about|because of)|the reason (?:i'?m calling |for my call )?is)\s+([^,.;!?]+)/i;
+const VOLUNTEERED_ALLERGIES = /\b(?:allergic to|allergies? (?:to|are|is))\s+([^.;!?]+)/i;
+const VOLUNTEERED_NO_ALLERGIES = /\bno (?:known )?(?:drug |medication )?allergies\b/i;
+const VOLUNTEERED_MEDICATIONS = /\b(?:i take|i'?m taking|i am taking|i'?m on|i am on)\s+([^.;!?]+)/i;
+// Where the patient moves on to another statement ("... and I take ...")
+const NEXT_STATEMENT = /,?\s+(?:and|but)\s+(?:i|i'm|i am|my)\b/i;
+const LIST_CUES =
+  /^(?:i(?:'m| am) allergic to|allergic to|i(?:'m| am) (?:on|taking)|i take|i'm on|just|only|to)\s+/i;
+
+// Any symptom phrase; a "name" containing one is a complaint ("Chest Pain")
+const SYMPTOM_TERMS = new RegExp(
+  `\\b(?:${symptomLexicon.symptoms
+    .flatMap((symptom) => [symptom.name, ...symptom.aliases])
+    .map((term) => escapeRegExp(term))
+    .join('|')})\\b`,
+  'i'
+);
+
+const DRUGS: DrugEntry[] = medicationLexicon.drugs.map((drug) => {
+  const terms = [drug.name, ...drug.aliases]
+    .sort((a, b) => b.length - a.length)
+    .map((term) => escapeRegExp(term).replace(/[- ]/g, '[- ]?'));
+  return { ...drug, pattern: new RegExp(`\\b(?:${terms.join('|')})\\b`, 'i') };
+});
+
+/**
+ * Extract an answer for a question from the patient's turns.
+ * Turns are tried latest first; returns null when nothing usable was said.
+ * "I don't know", "I'd rather not say" and a bare "none" come back as
+ * unknown_to_patient, declined and not_applicable answers without a value;
+ * an impossible date of birth as an unknown answer giving the reason.
+ */
+export function extractSlotAnswer(
+  question: IntakeQuestion,
+  turns: TranscriptTurn[],
+  context: ExtractionContext = {}
+): SlotAnswer | null {
+  const patientTurns = turns.filter((t) => t.speaker === 'patient' && t.is_final !== false);
+
+  for (const turn of [...patientTurns].reverse()) {
+    const nonAnswer = detectNonAnswer(question, turn.text);
+    if (nonAnswer) {
+      return {
+        confidence: CONFIDENCE.nonAnswer,
+        status: nonAnswer.status,
+        evidence_turn_ids: [turn.turn_id],
+        reason: nonAnswer.reason,
+      };
+    }
+
+    const extracted = extractValue(question.slot, turn.text, question.validation, {
+      ...context,
+      askedSlot: question.slot,
+    });
+    if (extracted) {
+      return {
+        value: extracted.value,
+        confidence: extracted.confidence,
+        status: 'filled',
+        evidence_turn_ids: [turn.turn_id],
+      };
+    }
+
+    // A birth date in the future or too long ago stays unknown with the reason
+    const birthDate = question.slot === 'dob' ? normalizeBirthDate(turn.text) : null;
+    if (birthDate && !birthDate.valid && birthDate.reason !== 'invalid_date') {
+      return {
+        confidence: CONFIDENCE.date,
+        status: 'unknown',
+        evidence_turn_ids: [turn.turn_id],
+        reason: birthDate.reason,
+      };
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Map one patient turn onto every open question it answers: the current
+ * question from anything said, the others only from explicit cues.
+ * Keyed by slot; each answer cites the turn as evidence.
+ */
+export function extractTurnAnswers(
+  current: IntakeQuestion | undefined,
+  openQuestions: IntakeQuestion[],
+  turn: TranscriptTurn,
+  context: ExtractionContext = {}
+): Record<string, SlotAnswer> {
+  const answers: Record<string, SlotAnswer> = {};
+
+  if (current && openQuestions.some((q) => q.id === current.id)) {
+    const answer = extractSlotAnswer(current, [turn], context);
+    if (answer) {
+      answers[current.slot] = answer;
+    }
+  }
+
+  for (const question of openQuestions) {
+    if (question.id === current?.id) {
+      continue;
+    }
+
+    const extracted = extractVolunteeredValue(question.slot, turn.text);
+    if (extracted) {
+      answers[question.slot] = {
+        value: extracted.value,
+        confidence: extracted.confidence,
+        status: 'filled',
+        evidence_turn_ids: [turn.turn_id],
+      };
+    }
+  }
+
+  return answers;
+}
+
+/**
+ * Extract a value offered for a question that was not asked. Only slots
+ * with an unambiguous cue phrase are considered.
+ */
+export function extractVolunteeredValue(slot: string, text: string): ExtractedValue | null {
+  switch (slot) {
+    case 'full_name': {
+      const cues = Array.from(text.matchAll(NAME_CUES));
+      const lastCue = cues[cues.length - 1];
+      // Only a capitalized name counts here: "this is Jane", not "this is about..."
+      const rest = lastCue ? text.slice(lastCue.index! + lastCue[0].length).trim() : '';
+      return /^[A-Z]/.test(rest) ? extractName(text, false) : null;
+    }
+    case 'dob': {
+      const match = text.match(VOLUNTEERED_DOB);
+      // Stop at the next comma, except the one before a year ("March 4, 1985")
+      const clause = match?.[1].split(/,(?!\s*\d{2,4}\b)/)[0];
+      const result = clause ? normalizeBirthDate(clause) : null;
+      return result?.valid ? { value: result.value, confidence: CONFIDENCE.date } : null;
+    }
+    case 'callback_number': {
+      const match = text.match(VOLUNTEERED_PHONE);
+      const result = match ? normalizePhone(match[0]) : null;
+      return result?.valid ? { value: result.value, confidence: CONFIDENCE.phone } : null;
+    }
+    case 'chief_complaint': {
+      const match = text.match(VOLUNTEERED_COMPLAINT);
+      return match ? extractFreeText(match[1]) : null;
+    }
+    case 'allergies': {
+      if (VOLUNTEERED_NO_ALLERGIES.test(text)) {
+        return { value: [], confidence: CONFIDENCE.none };
+      }
+      const match = text.match(VOLUNTEERED_ALLERGIES);
+      const drugs = match ? findMedications(match[1].split(NEXT_STATEMENT)[0], true) : [];
+      return drugs.length > 0 ? { value: drugs, confidence: CONFIDENCE.lexicon } : null;
+    }
+    case 'medications': {
+      const match = text.match(VOLUNTEERED_MEDICATIONS);
+      const drugs = match ? findMedications(match[1].split(NEXT_STATEMENT)[0]) : [];
+      return drugs.length > 0 ? { value: drugs, confidence: CONFIDENCE.lexicon } : null;
+    }
+    default:
+      return null;
+  }
+}
+
+/**
+ * Recognize an utterance that answers a question without a value.
+ * Named drugs win for medication lists: "penicillin, not sure what else".
+ */
+export function detectNonAnswer(
+  question: IntakeQuestion,
+  text: string
+): { status: 'declined' | 'unknown_to_patient' | 'not_applicable'; reason: string } | null {
+  const isDrugList = question.slot === 'allergies' || question.slot === 'medications';
+  if (isDrugList && findMedications(text, question.slot === 'allergies').length > 0) {
+    return null;
+  }
+
+  if (DECLINED.test(text)) {
+    return { status: 'declined', reason: 'patient_declined' };
+  }
+  if (UNKNOWN_TO_PATIENT.test(text)) {
+    return { status: 'unknown_to_patient', reason: 'patient_does_not_know' };
+  }
+
+  const isFreeText =
+    (!question.validation || question.validation.type === 'string') &&
+    !question.validation?.format &&
+    question.slot !== 'full_name' &&
+    !question.slot.endsWith('_name');
+  if (isFreeText && NONE_ONLY.test(text)) {
+    return { status: 'not_applicable', reason: 'none_reported' };
+  }
+
+  return null;
+}
+
+/**
+ * Whether the patient declines or does not know, whatever the question.
+ * Such a reply carries no value, even when it contains "no" or "not".
+ */
+export function isNonAnswer(text: string): boolean {
+  return DECLINED.test(text) || UNKNOWN_TO_PATIENT.test(text);
+}
+
+/**
+ * Extract a slot value from a single utterance
+ */
+export function extractValue(
+  slot: string,
+  text: string,
+  validation?: IntakeQuestion['validation'],
+  context: ExtractionContext = {}
+): ExtractedValue | null {
+  if (!text || !text.trim()) {
+    return null;
+  }
+
+  if (slot === 'full_name' || slot.endsWith('_name')) {
+    return extractName(text, context.askedSlot === slot);
+  }
+  if (slot === 'allergies') {
+    return extractDrugList(text, true);
+  }
+  if (slot === 'medications') {
+    return extractDrugList(text, false);
+  }
+  if (validation?.format === 'phone' || slot === 'callback_number') {
+    return extractPhone(text, context);
+  }
+
+  switch (validation?.type) {
+    case 'date': {
+      const result = slot === 'dob' ? normalizeBirthDate(text) : normalizeDate(text);
+      return result.valid ? { value: result.value, confidence: CONFIDENCE.date } : null;
+    }
+    case 'boolean': {
+      const answer = parseYesNo(text);
+      return answer === null ? null : { value: answer, confidence: CONFIDENCE.boolean };
+    }
+    case 'array':
+      return extractList(text);
+    case 'string':
+    default:
+      return extractFreeText(text);
+  }
+}
+
+/**
+ * Find lexicon drugs mentioned in an utterance, as generic names in
+ * order of mention. Allergens (latex, ...) are only included on request.
+ */
+export function findMedications(text: string, includeAllergens = false): string[] {
+  return findMedicationMentions(text, includeAllergens).map((m) => m.name);
+}
+
+/**
+ * Find the first mention of each lexicon drug with its character span
+ */
+export function findMedicationMentions(
+  text: string,
+  includeAllergens = false
+): MedicationMention[] {
+  const mentions: MedicationMention[] = [];
+
+  for (const drug of DRUGS) {
+    if (!includeAllergens && drug.class === 'allergen') continue;
+    const match = drug.pattern.exec(text);
+    if (match) {
+      mentions.push({ name: drug.name, offset: match.index, length: match[0].length });
+    }
+  }
+
+  return mentions.sort((a, b) => a.offset - b.offset);
+}
+
+/**
+ * A name after a cue phrase, or the whole utterance when `allowBare` (the
+ * name question was asked)
+ */
+function extractName(text: string, allowBare: boolean): ExtractedValue | null {
+  // Use whatever follows the last cue phrase ("my name is ...")
+  const cues = Array.from(text.matchAll(NAME_CUES));
+  const lastCue = cues[cues.length - 1];
+  const hasCue = !!lastCue;
+  if (!hasCue && !allowBare) {
+    return null;
+  }
+  const rest = hasCue
+    ? text.slice(lastCue.index! + lastCue[0].length)
+    : text.replace(SELF_INTRODUCTION, '');
+
+  const clause = rest.split(/[,.;!?]|\band\b|\bbut\b/i)[0];
+  if (SYMPTOM_TERMS.test(clause) || findMedications(clause, true).length > 0) {
+    return null;
+  }
+  const tokens = clause
+    .split(/\s+/)
+    .map((token) => token.replace(/[^a-zA-Z'-]/g, ''))
+    .filter(Boolean);
+
+  while (tokens.length > 0 && FILLERS.includes(tokens[0].toLowerCase())) {
+    tokens.shift();
+  }
+
+  if (
+    tokens.length === 0 ||
+    tokens.length > 4 ||
+    NOT_A_NAME_START.includes(tokens[0].toLowerCase()) ||
+    tokens.some((token) => NOT_A_NAME.includes(token.toLowerCase()))
+  ) {
+    return null;
+  }
+
+  const value = tokens.map(titleCase).join(' ');
+  const confidence = hasCue
+    ? CONFIDENCE.nameWithCue
+    : tokens.length > 1
+      ? CONFIDENCE.name
+      : CONFIDENCE.singleName;
+
+  return { value, confidence };
+}
+
+function extractPhone(text: string, context: ExtractionContext): ExtractedValue | null {
+  const result = normalizePhone(text);
+  if (result.valid) {
+    return { value: result.value, confidence: CONFIDENCE.phone };
+  }
+
+  if (context.callerNumber && !/\d/.test(text) && CALLER_NUMBER.test(text)) {
+    return { value: context.callerNumber, confidence: CONFIDENCE.callerNumber };
+  }
+
+  return null;
+}
+
+function extractDrugList(text: string, isAllergies: boolean): ExtractedValue | null {
+  // Named drugs win over "no": "no allergies except penicillin"
+  const drugs = findMedications(text, isAllergies);
+  if (drugs.length > 0) {
+    return { value: drugs, confidence: CONFIDENCE.lexicon };
+  }
+
+  const yesNo = parseYesNo(text);
+  if (yesNo === false || NONE_ANSWER.test(text)) {
+    return { value: [], confidence: CONFIDENCE.none };
+  }
+
+  // "Yes" without naming anything leaves the slot open
+  if (yesNo === true && text.trim().split(/\s+/).length <= 3) {
+    return null;
+  }
+
+  return extractList(text);
+}
+
+function extractList(text: string): ExtractedValue | null {
+  const result = normalizeList(text.trim().replace(LIST_CUES, ''));
+  if (!result.valid) {
+    return null;
+  }
+
+  // "Yes, to the antibiotic": drop the yes and the cue in front of each item
+  const items = (result.value as string[])
+    .map((item) => withoutLeadingFillers(item).replace(LIST_CUES, '').trim())
+    .filter(Boolean);
+  if (result.value.length > 0 && items.length === 0) {
+    return null;
+  }
+
+  return {
+    value: items,
+    confidence: items.length === 0 ? CONFIDENCE.none : CONFIDENCE.list,
+  };
+}
+
+function withoutLeadingFillers(text: string): string {
+  const tokens = text.trim().split(/\s+/);
+  while (tokens.length > 0 && FILLERS.includes(tokens[0].toLowerCase().replace(/[,.!]$/, ''))) {
+    tokens.shift();
+  }
+  return tokens.join(' ');
+}
+
+function extractFreeText(text: string): ExtractedValue | null {
+  const tokens = text.trim().replace(/[.!]+$/, '').split(/\s+/);
+  while (tokens.length > 0 && FILLERS.includes(tokens[0].toLowerCase().replace(/,$/, ''))) {
+    tokens.shift();
+  }
+
+  const value = tokens.join(' ');
+  return value ? { value, confidence: CONFIDENCE.freeText } : null;
+}
+
+function titleCase(word: string): string {
+  return word
+    .toLowerCase()
+    .replace(/(^|[-'])([a-z])/g, (_, separator: string, letter: string) => separator + letter.toUpperCase());
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
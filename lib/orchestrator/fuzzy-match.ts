@@ -0,0 +1,242 @@
+/**
+ * Fuzzy Phrase Matching
+ * ASR-tolerant matching for safety rule tokens: apostrophe/contraction
+ * folding, light stemming, edit-distance and phonetic similarity, with a
+ * 0-1 score per match so callers can apply a threshold.
+ */
+
+export interface TextToken {
+  stem: string;
+  offset: number; // Character span in the original text
+  length: number;
+}
+
+export interface PhraseMatch {
+  phrase: string; // The rule token or synonym that matched
+  text: string; // Matched span of the original text
+  offset: number;
+  length: number;
+  score: number;
+}
+
+// Minimum per-word similarity for a word to count as matched
+const MIN_WORD_SIMILARITY = 0.75;
+// Similarity given to words that sound alike but are spelled differently
+const PHONETIC_SIMILARITY = 0.85;
+// Words this short must match exactly ("no" vs "so")
+const MIN_FUZZY_LENGTH = 4;
+// One filler word may sit inside a phrase ("face is drooping"), at a cost
+const MAX_GAPS = 1;
+const GAP_PENALTY = 0.1;
+
+// Two-word negated forms folded into their contraction ("can not" → "cant")
+const CONTRACTIONS: Record<string, string> = {
+  'can not': 'cant',
+  'will not': 'wont',
+  'do not': 'dont',
+  'does not': 'doesnt',
+  'did not': 'didnt',
+  'is not': 'isnt',
+  'are not': 'arent',
+  'have not': 'havent',
+  'has not': 'hasnt',
+  'could not': 'couldnt',
+};
+
+const IRREGULAR: Record<string, string> = {
+  cannot: 'cant',
+  breathe: 'breath',
+  breathing: 'breath',
+  breathes: 'breath',
+  fell: 'fall',
+  felt: 'feel',
+  bled: 'bleed',
+};
+
+/**
+ * Split text into folded, stemmed words that keep their original spans
+ */
+export function tokenize(text: string): TextToken[] {
+  const words = Array.from(text.matchAll(/[a-z0-9]+(?:['’][a-z]+)?/gi)).map((match) => ({
+    word: match[0].toLowerCase().replace(/['’]/g, ''),
+    offset: match.index!,
+    length: match[0].length,
+  }));
+
+  const tokens: TextToken[] = [];
+  for (let i = 0; i < words.length; i++) {
+    const pair = words[i + 1] ? CONTRACTIONS[`${words[i].word} ${words[i + 1].word}`] : undefined;
+    if (pair) {
+      tokens.push({
+        stem: pair,
+        offset: words[i].offset,
+        length: words[i + 1].offset + words[i + 1].length - words[i].offset,
+      });
+      i++;
+      continue;
+    }
+
+    tokens.push({ stem: stem(words[i].word), offset: words[i].offset, length: words[i].length });
+  }
+
+  return tokens;
+}
+
+/**
+ * Light suffix-stripping stemmer: "drooping"/"drooped"/"droops" → "droop"
+ */
+export function stem(word: string): string {
+  if (IRREGULAR[word]) return IRREGULAR[word];
+  if (word.length <= 3 || /\d/.test(word)) return word;
+
+  let result = word;
+  if (result.endsWith('ies') && result.length > 4) {
+    result = result.slice(0, -3) + 'y';
+  } else if (result.endsWith('ing') && result.length >= 6) {
+    result = result.slice(0, -3);
+  } else if (result.endsWith('ed') && result.length >= 5) {
+    result = result.slice(0, -2);
+  } else if (result.endsWith('es') && result.length >= 5) {
+    result = result.slice(0, -2);
+  } else if (result.endsWith('s') && !result.endsWith('ss') && result.length >= 4) {
+    result = result.slice(0, -1);
+  }
+
+  // "stopped" → "stopp" → "stop"; keep "ss", "ll", "zz"
+  if (/([^aeiouslz])\1$/.test(result)) {
+    result = result.slice(0, -1);
+  }
+  if (result.endsWith('e') && result.length > 3) {
+    result = result.slice(0, -1);
+  }
+
+  return result;
+}
+
+/**
+ * Find spans of text matching any of the phrases, best score per span
+ */
+export function matchPhrases(text: string, phrases: string[], minScore = 0): PhraseMatch[] {
+  const tokens = tokenize(text);
+  const matches: PhraseMatch[] = [];
+
+  for (const phrase of phrases) {
+    const pattern = tokenize(phrase).map((t) => t.stem);
+    if (pattern.length === 0) continue;
+
+    for (let start = 0; start < tokens.length; start++) {
+      const match = alignAt(tokens, start, pattern);
+      if (!match || match.score < minScore) continue;
+
+      const first = tokens[start];
+      const last = tokens[match.end];
+      const length = last.offset + last.length - first.offset;
+      matches.push({
+        phrase,
+        text: text.slice(first.offset, first.offset + length),
+        offset: first.offset,
+        length,
+        score: match.score,
+      });
+    }
+  }
+
+  // Keep the best-scoring match among overlapping ones
+  matches.sort((a, b) => b.score - a.score);
+  const kept: PhraseMatch[] = [];
+  for (const match of matches) {
+    const overlapping = kept.some(
+      (k) => match.offset < k.offset + k.length && k.offset < match.offset + match.length
+    );
+    if (!overlapping) kept.push(match);
+  }
+
+  return kept.sort((a, b) => a.offset - b.offset);
+}
+
+/**
+ * Word similarity in 0-1 from edit distance, with a floor for words that
+ * sound alike
+ */
+export function similarity(a: string, b: string): number {
+  if (a === b) return 1;
+  if (a.length < MIN_FUZZY_LENGTH || b.length < MIN_FUZZY_LENGTH) return 0;
+
+  const editScore = 1 - levenshtein(a, b) / Math.max(a.length, b.length);
+  const phoneticScore = soundex(a) === soundex(b) ? PHONETIC_SIMILARITY : 0;
+  return Math.max(editScore, phoneticScore);
+}
+
+/**
+ * American Soundex code ("chest" → "C230")
+ */
+export function soundex(word: string): string {
+  const codes: Record<string, string> = {
+    b: '1', f: '1', p: '1', v: '1',
+    c: '2', g: '2', j: '2', k: '2', q: '2', s: '2', x: '2', z: '2',
+    d: '3', t: '3', l: '4', m: '5', n: '5', r: '6',
+  };
+  const letters = word.toLowerCase().replace(/[^a-z]/g, '');
+  if (!letters) return '';
+
+  let result = letters[0].toUpperCase();
+  let previous = codes[letters[0]] || '';
+  for (const letter of letters.slice(1)) {
+    const code = codes[letter] || '';
+    if (code && code !== previous) result += code;
+    // h and w do not separate letters with the same code
+    if (letter !== 'h' && letter !== 'w') previous = code;
+  }
+
+  return (result + '000').slice(0, 4);
+}
+
+/**
+ * Align a stemmed phrase with the tokens starting at `start`
+ */
+function alignAt(
+  tokens: TextToken[],
+  start: number,
+  pattern: string[]
+): { end: number; score: number } | null {
+  const scores: number[] = [];
+  let gaps = 0;
+  let i = start;
+
+  for (let j = 0; j < pattern.length; ) {
+    if (i >= tokens.length) return null;
+
+    const score = similarity(pattern[j], tokens[i].stem);
+    if (score >= MIN_WORD_SIMILARITY) {
+      scores.push(score);
+      j++;
+      i++;
+    } else if (j > 0 && gaps < MAX_GAPS) {
+      gaps++;
+      i++;
+    } else {
+      return null;
+    }
+  }
+
+  const average = scores.reduce((sum, s) => sum + s, 0) / scores.length;
+  return { end: i - 1, score: Math.max(0, average - gaps * GAP_PENALTY) };
+}
+
+function levenshtein(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+
+  return previous[b.length];
+}
@@ -0,0 +1,265 @@
+import { HandoffPriority, HandoffRecord, RequestHandoffArgs } from '../types';
+import type { OrchestratorEvent } from './index';
+import { SessionStore } from './session-store';
+
+// Time a handoff may wait unclaimed before it is re-escalated
+export const DEFAULT_HANDOFF_SLA_MS: Record<HandoffPriority, number> = {
+  urgent: 60 * 1000,
+  high: 5 * 60 * 1000,
+  normal: 15 * 60 * 1000,
+};
+
+const PRIORITY_RANK: Record<HandoffPriority, number> = { urgent: 0, high: 1, normal: 2 };
+
+/**
+ * Handoff Queue
+ * Open handoff requests, one per call, ordered by priority and age. Staff
+ * claim and release them; an unclaimed handoff that misses its SLA is
+ * re-escalated (non-urgent ones are promoted a priority level). Records
+ * live on the session state so every process sharing the store sees them.
+ */
+export class HandoffQueue {
+  private store: SessionStore;
+  private emit: (event: OrchestratorEvent) => void;
+  private slaMs: Record<HandoffPriority, number>;
+  private timers: Map<string, ReturnType<typeof setTimeout>> = new Map();
+
+  constructor(
+    store: SessionStore,
+    emit: (event: OrchestratorEvent) => void,
+    slaMs: Partial<Record<HandoffPriority, number>> = {}
+  ) {
+    this.store = store;
+    this.emit = emit;
+    this.slaMs = { ...DEFAULT_HANDOFF_SLA_MS, ...slaMs };
+
+    // Re-arm SLA timers for handoffs queued before a restart
+    for (const handoff of this.list()) {
+      if (handoff.status === 'queued') {
+        this.armTimer(handoff);
+      }
+    }
+  }
+
+  /**
+   * Queue a handoff for a call. A call with an open handoff keeps it,
+   * raised to the higher of the two priorities.
+   */
+  enqueue(request: RequestHandoffArgs): HandoffRecord | undefined {
+    const state = this.store.getSession(request.call_id);
+    if (!state) {
+      return undefined;
+    }
+
+    const priority = request.priority || 'normal';
+    state.handoffs = state.handoffs || [];
+    let handoff = state.handoffs.find((h) => h.status !== 'resolved');
+
+    if (handoff) {
+      if (PRIORITY_RANK[priority] >= PRIORITY_RANK[handoff.priority]) {
+        return handoff;
+      }
+      handoff.priority = priority;
+      handoff.reason = request.reason;
+      handoff.rule_id = request.rule_id;
+    } else {
+      handoff = {
+        handoff_id: `handoff_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`,
+        call_id: request.call_id,
+        reason: request.reason,
+        priority,
+        rule_id: request.rule_id,
+        status: 'queued',
+        requested_at: new Date().toISOString(),
+        escalations: 0,
+      };
+      state.handoffs.push(handoff);
+    }
+
+    if (handoff.status === 'queued') {
+      this.startSla(handoff);
+    }
+    this.store.saveSession(state);
+    this.publish(handoff);
+
+    return handoff;
+  }
+
+  /**
+   * Assign a queued handoff to a staff member
+   */
+  claim(handoffId: string, staffId: string): HandoffRecord {
+    return this.update(handoffId, (handoff) => {
+      if (handoff.status !== 'queued') {
+        throw new Error(`Handoff ${handoffId} is ${handoff.status}`);
+      }
+
+      handoff.status = 'claimed';
+      handoff.claimed_by = staffId;
+      handoff.claimed_at = new Date().toISOString();
+      handoff.sla_due_at = undefined;
+      this.clearTimer(handoffId);
+    });
+  }
+
+  /**
+   * Put a claimed handoff back in the queue with a fresh SLA
+   */
+  release(handoffId: string, staffId: string): HandoffRecord {
+    return this.update(handoffId, (handoff) => {
+      if (handoff.status !== 'claimed' || handoff.claimed_by !== staffId) {
+        throw new Error(`Handoff ${handoffId} is not claimed by ${staffId}`);
+      }
+
+      handoff.status = 'queued';
+      handoff.claimed_by = undefined;
+      handoff.claimed_at = undefined;
+      this.startSla(handoff);
+    });
+  }
+
+  /**
+   * Close the open handoff of a call (e.g. when the call ends)
+   */
+  resolve(callId: string): void {
+    const state = this.store.getSession(callId);
+    const handoff = state?.handoffs?.find((h) => h.status !== 'resolved');
+    if (!state || !handoff) {
+      return;
+    }
+
+    this.close(handoff);
+    this.store.saveSession(state);
+    this.publish(handoff);
+  }
+
+  /**
+   * Close a handoff on behalf of the staff member who took the caller
+   */
+  resolveHandoff(handoffId: string, staffId: string): HandoffRecord {
+    return this.update(handoffId, (handoff) => {
+      if (handoff.status === 'resolved') {
+        throw new Error(`Handoff ${handoffId} is resolved`);
+      }
+      if (handoff.status === 'claimed' && handoff.claimed_by !== staffId) {
+        throw new Error(`Handoff ${handoffId} is claimed by ${handoff.claimed_by}`);
+      }
+
+      this.close(handoff);
+      handoff.resolved_by = staffId;
+    });
+  }
+
+  /**
+   * Open handoffs: queued ones by priority then age, followed by claimed ones
+   */
+  list(): HandoffRecord[] {
+    const open = this.store
+      .listSessions()
+      .flatMap((state) => state.handoffs || [])
+      .filter((h) => h.status !== 'resolved');
+
+    return open.sort(
+      (a, b) =>
+        Number(a.status === 'claimed') - Number(b.status === 'claimed') ||
+        PRIORITY_RANK[a.priority] - PRIORITY_RANK[b.priority] ||
+        a.requested_at.localeCompare(b.requested_at)
+    );
+  }
+
+  find(handoffId: string): HandoffRecord | undefined {
+    for (const state of this.store.listSessions()) {
+      const handoff = state.handoffs?.find((h) => h.handoff_id === handoffId);
+      if (handoff) return handoff;
+    }
+    return undefined;
+  }
+
+  private update(handoffId: string, change: (handoff: HandoffRecord) => void): HandoffRecord {
+    const callId = this.find(handoffId)?.call_id;
+    const state = callId ? this.store.getSession(callId) : undefined;
+    const handoff = state?.handoffs?.find((h) => h.handoff_id === handoffId);
+    if (!state || !handoff) {
+      throw new Error(`Handoff not found: ${handoffId}`);
+    }
+
+    change(handoff);
+    this.store.saveSession(state);
+    this.publish(handoff);
+
+    return handoff;
+  }
+
+  private close(handoff: HandoffRecord): void {
+    handoff.status = 'resolved';
+    handoff.resolved_at = new Date().toISOString();
+    handoff.sla_due_at = undefined;
+    this.clearTimer(handoff.handoff_id);
+  }
+
+  private startSla(handoff: HandoffRecord): void {
+    handoff.sla_due_at = new Date(Date.now() + this.slaMs[handoff.priority]).toISOString();
+    this.armTimer(handoff);
+  }
+
+  private armTimer(handoff: HandoffRecord): void {
+    this.clearTimer(handoff.handoff_id);
+
+    const delay = Math.max(0, Date.parse(handoff.sla_due_at!) - Date.now());
+    const timer = setTimeout(() => this.onSlaExpired(handoff.call_id, handoff.handoff_id), delay);
+    // Do not keep the process alive just for SLA timers
+    timer.unref?.();
+    this.timers.set(handoff.handoff_id, timer);
+  }
+
+  private clearTimer(handoffId: string): void {
+    const timer = this.timers.get(handoffId);
+    if (timer) {
+      clearTimeout(timer);
+      this.timers.delete(handoffId);
+    }
+  }
+
+  /**
+   * Re-escalate a handoff that is still unclaimed when its SLA runs out
+   */
+  private onSlaExpired(callId: string, handoffId: string): void {
+    this.timers.delete(handoffId);
+
+    // Another process may have claimed or resolved it meanwhile
+    const state = this.store.getSession(callId);
+    const handoff = state?.handoffs?.find((h) => h.handoff_id === handoffId);
+    if (!state || !handoff || handoff.status !== 'queued') {
+      return;
+    }
+
+    const previousPriority = handoff.priority;
+    if (handoff.priority === 'normal') handoff.priority = 'high';
+    else if (handoff.priority === 'high') handoff.priority = 'urgent';
+    handoff.escalations += 1;
+    handoff.last_escalated_at = new Date().toISOString();
+    this.startSla(handoff);
+    this.store.saveSession(state);
+
+    console.warn(
+      `[HANDOFF SLA] Call ${callId} unclaimed past ${previousPriority} SLA, escalated to ${handoff.priority} (${handoff.escalations}x)`
+    );
+
+    this.emit({
+      type: 'handoff_escalated',
+      call_id: callId,
+      timestamp: new Date().toISOString(),
+      data: { handoff, previous_priority: previousPriority },
+    });
+    this.publish(handoff);
+  }
+
+  private publish(handoff: HandoffRecord): void {
+    this.emit({
+      type: 'handoff_queue_updated',
+      call_id: handoff.call_id,
+      timestamp: new Date().toISOString(),
+      data: { handoff, queue: this.list() },
+    });
+  }
+}
@@ -0,0 +1,66 @@
+import { SlotEngineState } from '../types';
+import { formatSpokenDate, joinSpoken, spokenSlotLabel } from './confirmation';
+
+/**
+ * Handoff Summary
+ * Short spoken summary of a call for the staff member taking it over
+ * (played as the transfer whisper).
+ */
+
+// Slots worth hearing before picking up, in speaking order
+const SUMMARY_SLOTS: Array<{ slot: string; label: string }> = [
+  { slot: 'full_name', label: 'Patient' },
+  { slot: 'dob', label: 'Date of birth' },
+  { slot: 'chief_complaint', label: 'Reason for call' },
+  { slot: 'allergies', label: 'Allergies' },
+  { slot: 'medications', label: 'Medications' },
+];
+
+export function buildHandoffSummary(state: SlotEngineState, reason?: string): string {
+  const handoff = state.handoffs?.find((h) => h.status !== 'resolved');
+  const parts = [
+    `Incoming ${handoff?.priority === 'urgent' ? 'urgent ' : ''}transfer from the intake line.`,
+  ];
+
+  const handoffReason = reason || handoff?.reason;
+  if (handoffReason) {
+    parts.push(`Reason for transfer: ${handoffReason}.`);
+  }
+
+  const flags = (state.red_flag_records || []).filter(
+    (flag) => flag.status !== 'dismissed' && flag.reason !== handoffReason
+  );
+  if (flags.length > 0) {
+    parts.push(`Red flags: ${joinSpoken(flags.map((flag) => flag.reason))}.`);
+  }
+
+  for (const { slot, label } of SUMMARY_SLOTS) {
+    const answer = state.snapshot.answers[slot];
+    if (!answer || (answer.status !== 'filled' && answer.status !== 'confirmed')) {
+      continue;
+    }
+
+    let value: string;
+    if (Array.isArray(answer.value)) {
+      value = answer.value.length > 0 ? joinSpoken(answer.value) : 'none';
+    } else if (slot === 'dob') {
+      value = formatSpokenDate(answer.value);
+    } else {
+      value = String(answer.value);
+    }
+    parts.push(`${label}: ${value}.`);
+  }
+
+  // Answers the patient would not or could not give, or never gave
+  const missing = state.questions
+    .filter((q) => {
+      const status = state.snapshot.answers[q.slot]?.status;
+      return status === 'declined' || status === 'unknown_to_patient' || status === 'unanswered';
+    })
+    .map((q) => spokenSlotLabel(q.slot));
+  if (missing.length > 0) {
+    parts.push(`Not provided: ${joinSpoken(missing)}.`);
+  }
+
+  return parts.join(' ');
+}
@@ -0,0 +1,275 @@
+import { CallRedirect, TransferTarget } from '../types';
+import { Orchestrator, OrchestratorAction, OrchestratorOptions } from './index';
+import { InMemorySessionStore } from './session-store';
+import { StaleSnapshotError } from './snapshot-history';
+
+const CALL_ID = 'call_test';
+
+/**
+ * Drives one call through the orchestrator with the rule-based extractor
+ */
+function startCall(options: OrchestratorOptions = {}) {
+  const orchestrator = new Orchestrator({
+    store: new InMemorySessionStore(),
+    ruleBasedExtraction: true,
+    ...options,
+  });
+  orchestrator.initializeSession(CALL_ID);
+  let turns = 0;
+
+  const say = (text: string): Promise<OrchestratorAction> => {
+    turns++;
+    return orchestrator.processTranscript({
+      turn_id: `turn_${turns}`,
+      call_id: CALL_ID,
+      speaker: 'patient',
+      text,
+      start_ms: turns * 1000,
+      end_ms: turns * 1000 + 500,
+      asr_confidence: 0.95,
+      is_final: true,
+    });
+  };
+  const answers = () => orchestrator.getSession(CALL_ID)!.snapshot.answers;
+
+  return { orchestrator, say, answers };
+}
+
+async function answerThroughChiefComplaint(say: (text: string) => Promise<OrchestratorAction>) {
+  await say('My name is Jane Doe');
+  await say('May 14 1982');
+  await say('yes');
+  await say('555 867 5309');
+  await say('I have a headache');
+}
+
+beforeEach(() => {
+  jest.spyOn(console, 'log').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe('patient corrections', () => {
+  it('answers the current question when a cue names no answered slot', async () => {
+    const { say, answers } = startCall();
+    await answerThroughChiefComplaint(say);
+
+    await say("actually I'm allergic to penicillin");
+
+    expect(answers().chief_complaint.value).toBe('I have a headache');
+    expect(answers().allergies.value).toEqual(['penicillin']);
+  });
+
+  it('does not move an answer into a confirmed slot', async () => {
+    const { say, answers } = startCall();
+    await answerThroughChiefComplaint(say);
+    await say("I'm allergic to penicillin");
+    await say('yes');
+    await say('hives');
+
+    await say('I mean I take lisinopril');
+
+    expect(answers().allergies).toMatchObject({ value: ['penicillin'], status: 'confirmed' });
+    expect(answers().medications.value).toEqual(['lisinopril']);
+  });
+
+  it('leaves earlier answers alone when the correction names no slot', async () => {
+    const { say, answers } = startCall();
+    await answerThroughChiefComplaint(say);
+
+    await say('I meant Janet Doe');
+
+    expect(answers().chief_complaint.value).toBe('I have a headache');
+    expect(answers().full_name.value).toBe('Jane Doe');
+  });
+
+  it('corrects the slot the turn names', async () => {
+    const { say, answers } = startCall();
+    await answerThroughChiefComplaint(say);
+
+    await say('actually my birthday is the 15th');
+
+    expect(answers().dob.value).toBe('1982-05-15');
+    expect(answers().dob.revisions?.[0]).toMatchObject({ value: '1982-05-14', changed_by: 'patient_correction' });
+  });
+});
+
+describe('read-back confirmation', () => {
+  async function answerAllergies(say: (text: string) => Promise<OrchestratorAction>) {
+    await answerThroughChiefComplaint(say);
+    return say("I'm allergic to penicillin");
+  }
+
+  it.each(["I don't know", "I'd rather not say", 'no idea'])(
+    'reads the value back again after "%s"',
+    async (reply) => {
+      const { say, answers } = startCall();
+      expect((await answerAllergies(say)).action).toBe('confirm_slot');
+
+      const action = await say(reply);
+
+      expect(action.action).toBe('confirm_slot');
+      expect(answers().allergies).toMatchObject({ value: ['penicillin'], status: 'filled' });
+    }
+  );
+
+  it('escalates when non-answers reach the attempt limit', async () => {
+    const { say, answers } = startCall({ maxConfirmationAttempts: 2 });
+    await answerAllergies(say);
+
+    await say("I don't know");
+    const action = await say("I'd rather not say");
+
+    expect(action.action).toBe('request_handoff');
+    expect(answers().allergies.value).toEqual(['penicillin']);
+  });
+
+  it('reads back the value given with a rejection', async () => {
+    const { say, answers } = startCall();
+    await answerAllergies(say);
+
+    const action = await say("No, it's amoxicillin");
+
+    expect(action.action).toBe('confirm_slot');
+    expect(answers().allergies.value).toEqual(['amoxicillin']);
+  });
+});
+
+describe('red flag dismissal', () => {
+  it('raises a new flag for new evidence after a dismissal', async () => {
+    const { orchestrator, say } = startCall();
+    expect((await say('I fainted yesterday')).action).toBe('request_handoff');
+    const [first] = orchestrator.getSession(CALL_ID)!.red_flag_records!;
+    await orchestrator.updateRedFlagStatus(first.flag_id, 'dismissed', 'nurse_1', 'Fainted years ago');
+
+    expect((await say('My name is Jane Doe')).action).not.toBe('request_handoff');
+    const action = await say('I just passed out again');
+
+    const records = orchestrator.getSession(CALL_ID)!.red_flag_records!;
+    expect(action.action).toBe('request_handoff');
+    expect(records).toHaveLength(2);
+    expect(records[1]).toMatchObject({ rule_id: first.rule_id, status: 'escalated' });
+    expect(orchestrator.getSnapshot(CALL_ID)?.red_flags).toContain(first.rule_id);
+  });
+
+  it('keeps the dismissed evidence suppressed', async () => {
+    const { orchestrator, say } = startCall();
+    await say('I fainted yesterday');
+    const [first] = orchestrator.getSession(CALL_ID)!.red_flag_records!;
+    await orchestrator.updateRedFlagStatus(first.flag_id, 'dismissed', 'nurse_1', 'Fainted years ago');
+
+    await say('My name is Jane Doe');
+
+    expect(orchestrator.getSession(CALL_ID)!.red_flag_records).toHaveLength(1);
+    expect(orchestrator.getSnapshot(CALL_ID)?.red_flags).toEqual([]);
+  });
+});
+
+describe('question attempts', () => {
+  const playback = (status: 'completed' | 'interrupted', questionId: string) => ({
+    playback_id: `playback_${status}`,
+    text: 'What is your full name?',
+    question_id: questionId,
+    status,
+    duration_ms: 1500,
+    started_at: new Date().toISOString(),
+  });
+
+  it('gives up on a question after max_attempts without playback reporting', async () => {
+    const { say, answers } = startCall();
+
+    // The question is asked after each of the first three turns
+    await say('hello?');
+    await say('hmm');
+    await say('sorry, what?');
+    const action = await say('what?');
+
+    expect(answers().full_name).toMatchObject({ status: 'unanswered', reason: 'max_attempts' });
+    expect(action.data?.question?.id).toBe('q_dob');
+  });
+
+  it('counts an ask heard to the end once', async () => {
+    const { orchestrator, say } = startCall();
+    await say('hello?');
+
+    orchestrator.recordPlayback(CALL_ID, playback('completed', 'q_full_name'));
+
+    expect(orchestrator.getSession(CALL_ID)!.question_attempts).toEqual({ q_full_name: 1 });
+    orchestrator.endSession(CALL_ID); // Stops the no-input timer the playback started
+  });
+
+  it('does not count an ask the patient interrupted', async () => {
+    const { orchestrator, say } = startCall();
+    await say('hello?');
+
+    orchestrator.recordPlayback(CALL_ID, playback('interrupted', 'q_full_name'));
+
+    expect(orchestrator.getSession(CALL_ID)!.question_attempts).toEqual({ q_full_name: 0 });
+  });
+});
+
+describe('handoffs', () => {
+  const transfer = (target: TransferTarget): CallRedirect => ({
+    call_sid: 'CA_test',
+    target,
+    twiml: '<Response/>',
+    redirected_at: new Date().toISOString(),
+    mock: true,
+  });
+
+  it('keeps a queued caller on the queue after the intake session ends', async () => {
+    const { orchestrator } = startCall();
+    const handoff = (await orchestrator.requestHandoff({ call_id: CALL_ID, reason: 'Patient asked for staff' }))!;
+
+    orchestrator.recordTransfer(CALL_ID, transfer({ type: 'queue', queue: 'intake' }));
+    orchestrator.endSession(CALL_ID);
+
+    expect(orchestrator.getHandoffQueue().map((h) => h.handoff_id)).toEqual([handoff.handoff_id]);
+    expect(orchestrator.findHandoff(handoff.handoff_id)!.sla_due_at).toBeDefined();
+
+    orchestrator.claimHandoff(handoff.handoff_id, 'staff_1');
+    const resolved = orchestrator.resolveHandoff(handoff.handoff_id, 'staff_1');
+
+    expect(resolved).toMatchObject({ status: 'resolved', resolved_by: 'staff_1' });
+    expect(orchestrator.getHandoffQueue()).toEqual([]);
+  });
+
+  it('closes the handoff when a call dialed straight to staff ends', async () => {
+    const { orchestrator } = startCall();
+    await orchestrator.requestHandoff({ call_id: CALL_ID, reason: 'Patient asked for staff' });
+
+    orchestrator.recordTransfer(CALL_ID, transfer({ type: 'number', number: '+15558675309' }));
+    orchestrator.endSession(CALL_ID);
+
+    expect(orchestrator.getHandoffQueue()).toEqual([]);
+  });
+
+  it('does not let another staff member resolve a claimed handoff', async () => {
+    const { orchestrator } = startCall();
+    const handoff = (await orchestrator.requestHandoff({ call_id: CALL_ID, reason: 'Patient asked for staff' }))!;
+    orchestrator.claimHandoff(handoff.handoff_id, 'staff_1');
+
+    expect(() => orchestrator.resolveHandoff(handoff.handoff_id, 'staff_2')).toThrow();
+    orchestrator.resolveHandoff(handoff.handoff_id, 'staff_1');
+  });
+});
+
+describe('LLM snapshot writes', () => {
+  it('rejects an emitted snapshot when the call moved on while the LLM was replying', async () => {
+    const { orchestrator, say } = startCall();
+    await say('My name is Jane Doe');
+    const shown = orchestrator.getSession(CALL_ID)!.snapshot;
+    const shownVersion = shown.version!;
+    const emitted = JSON.parse(JSON.stringify(shown));
+
+    await say('May 14 1982');
+    const call = { name: 'emit_snapshot' as const, arguments: { snapshot: emitted } };
+
+    await expect(orchestrator.processFunctionCall(CALL_ID, call, shownVersion)).rejects.toBeInstanceOf(
+      StaleSnapshotError
+    );
+    await expect(orchestrator.processFunctionCall(CALL_ID, call)).rejects.toThrow(/snapshot version/);
+  });
+});
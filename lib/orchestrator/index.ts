@@ -1,15 +1,46 @@
 import {
+  CallRedirect,
+  HandoffPriority,
+  HandoffRecord,
   IntakeSnapshot,
+  QuestionCompliance,
+  RedFlagDetection,
+  RedFlagRecord,
+  RedFlagStatus,
+  SessionMetadata,
+  SlotAnswer,
   SlotEngineState,
+  SlotRevision,
+  SnapshotVersion,
   TranscriptTurn,
   IntakeQuestion,
   LLMFunctionCall,
   EmitSnapshotArgs,
   RequestHandoffArgs,
   SpeakArgs,
+  TtsPlayback,
 } from '../types';
 import { SlotEngine } from './slot-engine';
-import { SafetyDetector } from './safety';
+import { DetectionContext, SafetyDetector } from './safety';
+import { SessionStore, createSessionStore } from './session-store';
+import { EventBus, createEventBus } from './event-bus';
+import {
+  buildReadBack,
+  DEFAULT_MAX_CONFIRMATION_ATTEMPTS,
+  extractReplacementValue,
+} from './confirmation';
+import { parseYesNo } from './normalizers';
+import { extractTurnAnswers, isNonAnswer } from './extractor';
+import { findCorrection } from './corrections';
+import { enrichTurn } from './enrichment';
+import { SYSTEM_ACTOR, createRedFlagRecord, transitionRedFlag } from './red-flag-lifecycle';
+import { HandoffQueue } from './handoff-queue';
+import { DEFAULT_VERBATIM_TOLERANCE, checkVerbatim } from './compliance';
+import { NO_INPUT_OFFER, NO_INPUT_REPHRASE, NoInputTimers } from './no-input';
+import { StaleSnapshotError, diffSnapshots, hasContentChanges } from './snapshot-history';
+
+// Minimum time between red flag checks of interim transcripts for a call
+const INTERIM_CHECK_INTERVAL_MS = 250;
 
 /**
  * Orchestrator
@@ -19,25 +50,52 @@ import { SafetyDetector } from './safety';
 export class Orchestrator {
   private slotEngine: SlotEngine;
   private safetyDetector: SafetyDetector;
-  private sessions: Map<string, SlotEngineState>;
-  private snapshots: Map<string, IntakeSnapshot>;
-  private eventListeners: Map<string, Array<(event: OrchestratorEvent) => void>>;
+  private store: SessionStore;
+  private bus: EventBus;
+  private handoffQueue: HandoffQueue;
+  private noInputTimers: NoInputTimers;
+  private maxConfirmationAttempts: number;
+  private ruleBasedExtraction: boolean;
+  private verbatimTolerance: number;
+  // Last interim turn checked for red flags, per call
+  private interimChecks: Map<string, { at: number; text: string }> = new Map();
 
-  constructor() {
+  constructor(options: OrchestratorOptions = {}) {
     this.slotEngine = new SlotEngine();
     this.safetyDetector = new SafetyDetector();
-    this.sessions = new Map();
-    this.snapshots = new Map();
-    this.eventListeners = new Map();
+    this.store = options.store || createSessionStore();
+    this.bus = options.bus || createEventBus();
+    this.handoffQueue = new HandoffQueue(
+      this.store,
+      (event) => this.emitEvent(event),
+      options.handoffSlaMs
+    );
+    this.noInputTimers = new NoInputTimers(
+      (callId, count) => this.handleNoInput(callId, count),
+      options.noInputTimeoutMs
+    );
+    this.maxConfirmationAttempts =
+      options.maxConfirmationAttempts ?? DEFAULT_MAX_CONFIRMATION_ATTEMPTS;
+    // Without an LLM nothing else fills slots from what the patient says
+    this.ruleBasedExtraction = options.ruleBasedExtraction ?? !process.env.OPENAI_API_KEY;
+    this.verbatimTolerance = options.verbatimTolerance ?? DEFAULT_VERBATIM_TOLERANCE;
   }
 
   /**
    * Initialize a new call session
    */
-  initializeSession(callId: string): SlotEngineState {
-    const state = this.slotEngine.initializeState(callId);
-    this.sessions.set(callId, state);
-    this.snapshots.set(callId, state.snapshot);
+  initializeSession(callId: string, options: SessionOptions = {}): SlotEngineState {
+    const state = this.slotEngine.initializeState(
+      callId,
+      options.templateId,
+      options.templateVersion
+    );
+    state.metadata = {
+      ...state.metadata!,
+      call_sid: options.callSid,
+      phone_number: options.phoneNumber,
+    };
+    this.persist(state);
 
     this.emitEvent({
       type: 'session_started',
@@ -53,59 +111,133 @@ export class Orchestrator {
    * Get session state
    */
   getSession(callId: string): SlotEngineState | undefined {
-    return this.sessions.get(callId);
+    return this.store.getSession(callId);
+  }
+
+  /**
+   * Update call-level metadata (status, recording URL, ...)
+   */
+  updateSessionMetadata(
+    callId: string,
+    metadata: Partial<SessionMetadata>
+  ): SlotEngineState {
+    const state = this.store.getSession(callId);
+    if (!state) {
+      throw new Error(`Session not found: ${callId}`);
+    }
+
+    state.metadata = {
+      status: 'active',
+      started_at: state.snapshot.timestamp,
+      ...state.metadata,
+      ...metadata,
+    };
+    this.store.saveSession(state);
+
+    return state;
   }
 
   /**
    * Get current snapshot
    */
   getSnapshot(callId: string): IntakeSnapshot | undefined {
-    return this.snapshots.get(callId);
+    return this.store.getSnapshot(callId);
+  }
+
+  /**
+   * A call's snapshot history, oldest first: the full first version, then
+   * the changes each later version made
+   */
+  getSnapshotHistory(callId: string): SnapshotVersion[] {
+    return this.store.getSnapshotHistory(callId);
   }
 
   /**
    * Process incoming transcript turn from ASR
    */
-  async processTranscript(turn: TranscriptTurn): Promise<OrchestratorAction> {
-    const state = this.sessions.get(turn.call_id);
+  async processTranscript(asrTurn: TranscriptTurn): Promise<OrchestratorAction> {
+    const state = this.store.getSession(asrTurn.call_id);
     if (!state) {
-      throw new Error(`Session not found: ${turn.call_id}`);
+      throw new Error(`Session not found: ${asrTurn.call_id}`);
     }
 
-    // Add turn to state
-    this.slotEngine.addTranscriptTurn(state, turn);
+    // Any patient speech, even interim, ends the silence
+    if (asrTurn.speaker === 'patient') {
+      this.noInputTimers.reset(asrTurn.call_id);
+    }
 
-    // Emit appropriate event based on is_final
-    this.emitEvent({
-      type: turn.is_final ? 'final' : 'partial',
-      call_id: turn.call_id,
-      timestamp: new Date().toISOString(),
-      data: { turn },
+    // Detect entities and PHI spans before the turn is stored or broadcast
+    const turn = enrichTurn(asrTurn, {
+      expectedSlot: state.questions[state.current_question_index]?.slot,
     });
+    if (turn.is_final) {
+      console.log(`[${turn.call_id}] ${turn.speaker}: ${turn.redacted_text}`);
+    }
 
-    // Also emit generic transcript_received for backwards compatibility
-    this.emitEvent({
-      type: 'transcript_received',
-      call_id: turn.call_id,
-      timestamp: new Date().toISOString(),
-      data: { turn },
-    });
+    // Add turn to state; a final turn is saved with the updates it leads to below
+    this.slotEngine.addTranscriptTurn(state, turn);
+    if (!turn.is_final) {
+      this.persist(state);
+    }
+    this.emitTurn(turn);
 
-    // Only process final transcripts for action
+    // Only process final transcripts for action; urgent red flags get
+    // a provisional early check
     if (!turn.is_final) {
+      if (turn.speaker === 'patient') {
+        this.checkInterimRedFlags(state, turn);
+      }
       return { action: 'none' };
     }
 
     // Check for safety red flags
-    const redFlags = this.safetyDetector.checkRecentTurns(state.turns);
+    const detections = this.safetyDetector.checkRecentTurns(
+      state.turns,
+      undefined,
+      this.getDetectionContext(state)
+    );
+
+    // Negated, historical, hypothetical or family-member mentions are
+    // reported for review but do not escalate
+    const suppressed = detections.filter(
+      (flag) => flag.assertion.status !== 'affirmed' && flag.evidence_turn_ids.includes(turn.turn_id)
+    );
+    if (suppressed.length > 0) {
+      this.emitEvent({
+        type: 'red_flag_suppressed',
+        call_id: turn.call_id,
+        timestamp: new Date().toISOString(),
+        data: { flags: suppressed },
+      });
+    }
+
+    // A dismissal covers the evidence staff reviewed; new evidence raises the flag again
+    const redFlags = detections.filter(
+      (flag) => flag.assertion.status === 'affirmed' && !this.isDismissedEvidence(state, flag)
+    );
+    if (turn.speaker === 'patient') {
+      this.resolveProvisionalRedFlags(state, redFlags);
+    }
+
     if (redFlags.length > 0) {
       // Add red flags to snapshot
       for (const flag of redFlags) {
-        if (!state.snapshot.red_flags.includes(flag.reason)) {
-          state.snapshot.red_flags.push(flag.reason);
+        if (!state.snapshot.red_flags.includes(flag.rule_id)) {
+          state.snapshot.red_flags.push(flag.rule_id);
         }
       }
 
+      // Track each flag for staff review; the handoff below escalates it
+      const records = redFlags.map((flag) => this.recordRedFlag(state, flag));
+      const newRecords = records.filter((r) => r.status === 'detected');
+      for (const record of newRecords) {
+        transitionRedFlag(record, 'escalated', SYSTEM_ACTOR, 'Automatic handoff');
+      }
+      this.persist(state);
+      for (const record of newRecords) {
+        this.emitRedFlagUpdate(record);
+      }
+
       // Request immediate handoff
       this.emitEvent({
         type: 'red_flag_detected',
@@ -114,23 +246,75 @@ export class Orchestrator {
         data: { flags: redFlags },
       });
 
+      const handoff = this.handoffQueue.enqueue({
+        call_id: turn.call_id,
+        reason: redFlags[0].reason,
+        priority: redFlags[0].priority,
+        rule_id: redFlags[0].rule_id,
+      });
+
       return {
         action: 'request_handoff',
         data: {
           call_id: turn.call_id,
           reason: redFlags[0].reason,
           priority: redFlags[0].priority,
+          rule_id: redFlags[0].rule_id,
+          flag_id: records[0].flag_id,
+          handoff_id: handoff?.handoff_id,
         },
       };
     }
 
-    // Get next question to ask
-    const nextQuestion = this.slotEngine.getNextQuestion(state);
+    // "Actually, my birthday is the 15th" revises an earlier answer
+    const corrected = turn.speaker === 'patient' && this.applyCorrection(state, turn);
+
+    // Fill the slot of the question the patient is answering, and any
+    // other open slot they volunteered
+    if (
+      this.ruleBasedExtraction &&
+      !corrected &&
+      !state.pending_confirmation &&
+      turn.speaker === 'patient'
+    ) {
+      this.extractTurnSlots(state, turn);
+    }
+
+    // Patient is answering a read-back
+    if (state.pending_confirmation && turn.speaker === 'patient') {
+      const confirmationAction = this.handleConfirmationReply(state, turn);
+      if (confirmationAction) {
+        return confirmationAction;
+      }
+    }
+
+    // Read back critical slots before moving on
+    const confirmQuestion = this.slotEngine.getNextConfirmation(state);
+    if (confirmQuestion) {
+      return this.requestConfirmation(state, confirmQuestion);
+    }
+
+    // Get next question to ask, giving up on questions asked too often
+    let nextQuestion = this.slotEngine.getNextQuestion(state);
+    while (nextQuestion && this.slotEngine.hasExhaustedAttempts(state, nextQuestion)) {
+      this.applyNonAnswer(
+        state,
+        nextQuestion.slot,
+        {
+          confidence: 0,
+          status: 'unanswered',
+          evidence_turn_ids: state.snapshot.answers[nextQuestion.slot]?.evidence_turn_ids || [],
+          reason: 'max_attempts',
+        },
+        'policy'
+      );
+      nextQuestion = this.slotEngine.getNextQuestion(state);
+    }
 
     if (!nextQuestion) {
       // All questions answered
       state.snapshot.completed = true;
-      this.snapshots.set(turn.call_id, state.snapshot);
+      this.persist(state);
 
       this.emitEvent({
         type: 'intake_completed',
@@ -148,26 +332,456 @@ export class Orchestrator {
       };
     }
 
+    return this.askQuestion(state, nextQuestion);
+  }
+
+  /**
+   * Broadcast a stored transcript turn
+   */
+  private emitTurn(turn: TranscriptTurn): void {
+    // Emit appropriate event based on is_final
+    this.emitEvent({
+      type: turn.is_final ? 'final' : 'partial',
+      call_id: turn.call_id,
+      timestamp: new Date().toISOString(),
+      data: { turn },
+    });
+
+    // Also emit generic transcript_received for backwards compatibility
+    this.emitEvent({
+      type: 'transcript_received',
+      call_id: turn.call_id,
+      timestamp: new Date().toISOString(),
+      data: { turn },
+    });
+  }
+
+  /**
+   * Red flag detection context for the session's template
+   */
+  private getDetectionContext(state: SlotEngineState): DetectionContext {
+    const template = state.snapshot.template;
+    return {
+      templateId: template?.id,
+      proxyCaller: template
+        ? this.slotEngine.getTemplate(template.id, template.version).caller === 'proxy'
+        : false,
+    };
+  }
+
+  /**
+   * Check an interim turn against urgent rules and raise provisional red
+   * flags. Checks are debounced, and a rule already pending or confirmed
+   * for the call is not raised again.
+   */
+  private checkInterimRedFlags(state: SlotEngineState, turn: TranscriptTurn): void {
+    const now = Date.now();
+    const last = this.interimChecks.get(state.call_id);
+    if (last && (last.text === turn.text || now - last.at < INTERIM_CHECK_INTERVAL_MS)) {
+      return;
+    }
+    this.interimChecks.set(state.call_id, { at: now, text: turn.text });
+
+    const pending = state.provisional_red_flags || [];
+    const flags = this.safetyDetector
+      .checkInterimTurn(state.turns, turn, undefined, this.getDetectionContext(state))
+      .filter(
+        (flag) =>
+          flag.assertion.status === 'affirmed' &&
+          !state.snapshot.red_flags.includes(flag.rule_id) &&
+          !pending.some((p) => p.rule_id === flag.rule_id)
+      );
+    if (flags.length === 0) {
+      return;
+    }
+
+    const detectedAt = new Date().toISOString();
+    state.provisional_red_flags = [
+      ...pending,
+      ...flags.map((flag) => ({ rule_id: flag.rule_id, turn_id: turn.turn_id, detected_at: detectedAt })),
+    ];
+    this.persist(state);
+
+    this.emitEvent({
+      type: 'red_flag_detected',
+      call_id: state.call_id,
+      timestamp: detectedAt,
+      data: { flags, provisional: true },
+    });
+  }
+
+  /**
+   * Confirm or retract the provisional red flags of an utterance once its
+   * final turn has been checked
+   */
+  private resolveProvisionalRedFlags(state: SlotEngineState, redFlags: RedFlagDetection[]): void {
+    this.interimChecks.delete(state.call_id);
+
+    const pending = state.provisional_red_flags;
+    if (!pending || pending.length === 0) {
+      return;
+    }
+    state.provisional_red_flags = undefined;
+    this.persist(state);
+
+    const confirmed = pending.filter((p) => redFlags.some((flag) => flag.rule_id === p.rule_id));
+    const retracted = pending.filter((p) => !confirmed.includes(p));
+
+    if (confirmed.length > 0) {
+      this.emitEvent({
+        type: 'red_flag_confirmed',
+        call_id: state.call_id,
+        timestamp: new Date().toISOString(),
+        data: { flags: confirmed },
+      });
+    }
+
+    if (retracted.length > 0) {
+      this.emitEvent({
+        type: 'red_flag_retracted',
+        call_id: state.call_id,
+        timestamp: new Date().toISOString(),
+        data: { flags: retracted },
+      });
+    }
+  }
+
+  /**
+   * Find or create the red flag record for a detection
+   */
+  private recordRedFlag(state: SlotEngineState, detection: RedFlagDetection): RedFlagRecord {
+    state.red_flag_records = state.red_flag_records || [];
+    const existing = state.red_flag_records.find(
+      (record) => record.rule_id === detection.rule_id && record.status !== 'dismissed'
+    );
+    if (existing) {
+      return existing;
+    }
+
+    const record = createRedFlagRecord(`flag_${uuidv4()}`, state.call_id, detection);
+    state.red_flag_records.push(record);
+    return record;
+  }
+
+  /**
+   * Whether all of a detection's evidence was said before staff dismissed
+   * a flag for the same rule
+   */
+  private isDismissedEvidence(state: SlotEngineState, detection: RedFlagDetection): boolean {
+    const turnIndex = (turnId?: string) => state.turns.findIndex((turn) => turn.turn_id === turnId);
+
+    return (state.red_flag_records || []).some((record) => {
+      if (record.status !== 'dismissed' || record.rule_id !== detection.rule_id) {
+        return false;
+      }
+      const dismissedThrough = record.dismissed_through_turn_id
+        ? turnIndex(record.dismissed_through_turn_id)
+        : Math.max(-1, ...record.evidence_turn_ids.map(turnIndex));
+      return detection.evidence_turn_ids.every((turnId) => turnIndex(turnId) <= dismissedThrough);
+    });
+  }
+
+  private emitRedFlagUpdate(record: RedFlagRecord): void {
+    this.emitEvent({
+      type: 'red_flag_updated',
+      call_id: record.call_id,
+      timestamp: new Date().toISOString(),
+      data: { flag: record },
+    });
+  }
+
+  /**
+   * Build the ask_question action and remember which question is open
+   */
+  private askQuestion(state: SlotEngineState, question: IntakeQuestion): OrchestratorAction {
+    state.current_question_index = state.questions.findIndex((q) => q.id === question.id);
+    // Counted now so calls without playback reporting (the transcript API)
+    // also give up after max_attempts; the playback of this ask keeps or undoes it
+    this.slotEngine.countQuestionAttempt(state, question.id);
+    state.unplayed_question_id = question.id;
+    this.persist(state);
+
     // Build LLM prompt for the question
-    const prompt = this.slotEngine.buildQuestionPrompt(nextQuestion, state);
+    const prompt = this.slotEngine.buildQuestionPrompt(question, state);
 
     return {
       action: 'ask_question',
       data: {
-        question: nextQuestion,
+        question,
+        prompt,
+      },
+    };
+  }
+
+  /**
+   * Run the rule-based extractor over the open questions. The current
+   * question takes any answer; other slots need an explicit cue.
+   */
+  private extractTurnSlots(state: SlotEngineState, turn: TranscriptTurn): void {
+    const current = state.questions[state.current_question_index];
+    const answers = extractTurnAnswers(current, this.slotEngine.getOpenQuestions(state), turn, {
+      callerNumber: state.metadata?.phone_number,
+    });
+
+    for (const [slot, answer] of Object.entries(answers)) {
+      if (answer.status === 'filled') {
+        this.applySlotUpdate(
+          state,
+          slot,
+          answer.value,
+          answer.confidence,
+          answer.evidence_turn_ids,
+          'rules'
+        );
+      } else {
+        this.applyNonAnswer(state, slot, answer, 'rules');
+      }
+    }
+  }
+
+  /**
+   * Apply a patient's correction of an answered slot. Returns false when
+   * the turn does not correct anything.
+   */
+  private applyCorrection(state: SlotEngineState, turn: TranscriptTurn): boolean {
+    const correction = findCorrection(state, turn.text, {
+      callerNumber: state.metadata?.phone_number,
+    });
+    const slot = correction?.question.slot;
+    const previous = slot ? state.snapshot.answers[slot] : undefined;
+    if (!correction || !slot || !previous) {
+      return false;
+    }
+    if (JSON.stringify(previous.value) === JSON.stringify(correction.value.value)) {
+      return false;
+    }
+
+    this.slotEngine.reviseSlot(
+      state,
+      slot,
+      correction.value.value,
+      correction.value.confidence,
+      [turn.turn_id],
+      'patient_correction',
+      turn.turn_id
+    );
+    // A corrected value is read back afresh
+    if (state.pending_confirmation?.slot === slot) {
+      state.pending_confirmation = undefined;
+    }
+    this.persist(state);
+
+    const answer = state.snapshot.answers[slot];
+    console.log(`[${state.call_id}] Patient corrected ${slot} ("${correction.cue}")`);
+
+    this.emitEvent({
+      type: 'slot_updated',
+      call_id: state.call_id,
+      timestamp: new Date().toISOString(),
+      data: {
+        slot,
+        value: answer.value,
+        confidence: answer.confidence,
+        status: answer.status,
+        reason: answer.reason,
+        source: 'correction',
+      },
+    });
+    this.emitEvent({
+      type: 'slot_corrected',
+      call_id: state.call_id,
+      timestamp: new Date().toISOString(),
+      data: {
+        slot,
+        previous_value: previous.value,
+        value: answer.value,
+        status: answer.status,
+        cue: correction.cue,
+        turn_id: turn.turn_id,
+        revisions: answer.revisions,
+      },
+    });
+
+    return true;
+  }
+
+  /**
+   * Handle the patient's yes/no reply to a pending read-back.
+   * Returns null once the read-back is resolved and the intake can continue.
+   */
+  private handleConfirmationReply(
+    state: SlotEngineState,
+    turn: TranscriptTurn
+  ): OrchestratorAction | null {
+    const pending = state.pending_confirmation!;
+    const question = state.questions.find((q) => q.id === pending.question_id);
+    // "I don't know" is neither a yes nor a no, whatever words it contains
+    const reply = isNonAnswer(turn.text) ? null : parseYesNo(turn.text);
+
+    // Ambiguous reply or non-answer: read the value back again, up to the attempt limit
+    if (reply === null) {
+      const attempts = this.slotEngine.countConfirmationAttempt(state, pending.slot);
+      this.persist(state);
+      if (attempts >= this.maxConfirmationAttempts) {
+        state.pending_confirmation = undefined;
+        this.persist(state);
+        return this.escalateConfirmation(state, pending.slot, attempts);
+      }
+
+      return {
+        action: 'confirm_slot',
+        data: {
+          slot: pending.slot,
+          question,
+          prompt: pending.prompt,
+        },
+      };
+    }
+
+    state.pending_confirmation = undefined;
+
+    if (reply) {
+      this.slotEngine.resolveConfirmation(state, pending.slot, true);
+      this.persist(state);
+      this.emitEvent({
+        type: 'slot_confirmed',
+        call_id: state.call_id,
+        timestamp: new Date().toISOString(),
+        data: { slot: pending.slot, value: state.snapshot.answers[pending.slot]?.value },
+      });
+      return null;
+    }
+
+    // "No, it's May 15th, 1982" rejects the value and gives the right one
+    const replacement =
+      question &&
+      extractReplacementValue(question, turn.text, { callerNumber: state.metadata?.phone_number });
+    let attempts: number;
+    if (replacement) {
+      attempts = this.slotEngine.countConfirmationAttempt(state, pending.slot);
+      this.slotEngine.reviseSlot(
+        state,
+        pending.slot,
+        replacement.value,
+        replacement.confidence,
+        [turn.turn_id],
+        'patient_correction',
+        turn.turn_id
+      );
+    } else {
+      this.slotEngine.resolveConfirmation(state, pending.slot, false);
+      attempts = state.confirmation_attempts?.[pending.slot] || 0;
+    }
+    this.persist(state);
+
+    this.emitEvent({
+      type: 'slot_rejected',
+      call_id: state.call_id,
+      timestamp: new Date().toISOString(),
+      data: { slot: pending.slot, attempts },
+    });
+
+    if (attempts >= this.maxConfirmationAttempts) {
+      return this.escalateConfirmation(state, pending.slot, attempts);
+    }
+
+    if (!question) {
+      return null;
+    }
+
+    // Read the replacement back, or re-ask the question the rejected value came from
+    const answer = state.snapshot.answers[pending.slot];
+    if (replacement && answer?.status === 'filled') {
+      this.emitEvent({
+        type: 'slot_updated',
+        call_id: state.call_id,
+        timestamp: new Date().toISOString(),
+        data: {
+          slot: pending.slot,
+          value: answer.value,
+          confidence: answer.confidence,
+          status: answer.status,
+          source: 'correction',
+        },
+      });
+      return this.requestConfirmation(state, question);
+    }
+
+    return this.askQuestion(state, question);
+  }
+
+  /**
+   * Hand the call to staff once a slot could not be confirmed
+   */
+  private escalateConfirmation(
+    state: SlotEngineState,
+    slot: string,
+    attempts: number
+  ): OrchestratorAction {
+    const reason = `Could not confirm ${slot} after ${attempts} attempts`;
+    this.emitEvent({
+      type: 'confirmation_escalated',
+      call_id: state.call_id,
+      timestamp: new Date().toISOString(),
+      data: { slot, attempts },
+    });
+
+    const handoff = this.handoffQueue.enqueue({ call_id: state.call_id, reason, priority: 'normal' });
+
+    return {
+      action: 'request_handoff',
+      data: {
+        call_id: state.call_id,
+        reason,
+        priority: 'normal',
+        handoff_id: handoff?.handoff_id,
+      },
+    };
+  }
+
+  /**
+   * Read a filled critical slot back to the patient
+   */
+  private requestConfirmation(
+    state: SlotEngineState,
+    question: IntakeQuestion
+  ): OrchestratorAction {
+    const prompt = buildReadBack(question, state.snapshot.answers[question.slot]);
+    state.pending_confirmation = {
+      slot: question.slot,
+      question_id: question.id,
+      prompt,
+      requested_at: new Date().toISOString(),
+    };
+    this.persist(state);
+
+    this.emitEvent({
+      type: 'confirmation_requested',
+      call_id: state.call_id,
+      timestamp: new Date().toISOString(),
+      data: { slot: question.slot, prompt },
+    });
+
+    return {
+      action: 'confirm_slot',
+      data: {
+        slot: question.slot,
+        question,
         prompt,
       },
     };
   }
 
   /**
-   * Process LLM function call
+   * Process LLM function call. `snapshotVersion` is the version of the
+   * snapshot the LLM was shown, which an emit_snapshot call is based on.
    */
   async processFunctionCall(
     callId: string,
-    functionCall: LLMFunctionCall
+    functionCall: LLMFunctionCall,
+    snapshotVersion?: number
   ): Promise<void> {
-    const state = this.sessions.get(callId);
+    const state = this.store.getSession(callId);
     if (!state) {
       throw new Error(`Session not found: ${callId}`);
     }
@@ -175,7 +789,10 @@ export class Orchestrator {
     switch (functionCall.name) {
       case 'emit_snapshot': {
         const args = functionCall.arguments as EmitSnapshotArgs;
-        await this.emitSnapshot(callId, args.snapshot);
+        if (snapshotVersion === undefined) {
+          throw new Error('emit_snapshot needs the snapshot version the LLM was shown');
+        }
+        await this.emitSnapshot(callId, args.snapshot, snapshotVersion);
         break;
       }
 
@@ -199,9 +816,15 @@ export class Orchestrator {
   }
 
   /**
-   * Emit and validate snapshot
+   * Emit and validate snapshot. The write is rejected with a
+   * StaleSnapshotError unless `expectedVersion` is the stored version.
    */
-  async emitSnapshot(callId: string, snapshot: IntakeSnapshot): Promise<void> {
+  async emitSnapshot(
+    callId: string,
+    snapshot: IntakeSnapshot,
+    expectedVersion: number,
+    changedBy: SlotRevision['changed_by'] = 'llm'
+  ): Promise<void> {
     // Validate snapshot
     const validation = this.slotEngine.validateSnapshot(snapshot);
     if (!validation.valid) {
@@ -209,13 +832,24 @@ export class Orchestrator {
       throw new Error(`Invalid snapshot: ${validation.errors.join(', ')}`);
     }
 
-    // Store snapshot
-    this.snapshots.set(callId, snapshot);
+    const currentVersion = this.store.getSnapshot(callId)?.version ?? 0;
+    if (expectedVersion !== currentVersion) {
+      throw new StaleSnapshotError(expectedVersion, currentVersion);
+    }
 
     // Update session state
-    const state = this.sessions.get(callId);
+    const state = this.store.getSession(callId);
     if (state) {
+      // The template is fixed for the call; LLM-emitted snapshots omit it
+      snapshot.template = snapshot.template || state.snapshot.template;
+      // Compliance is audited server-side, never taken from the LLM
+      snapshot.question_compliance = state.snapshot.question_compliance;
+      // Replaced answers go into their revision history
+      this.slotEngine.mergeRevisions(state.snapshot, snapshot, changedBy);
       state.snapshot = snapshot;
+      this.persist(state);
+    } else {
+      this.saveSnapshot(callId, snapshot);
     }
 
     // Emit events
@@ -238,9 +872,9 @@ export class Orchestrator {
   }
 
   /**
-   * Request handoff to human staff
+   * Request handoff to human staff and queue it for a staff member to claim
    */
-  async requestHandoff(request: RequestHandoffArgs): Promise<void> {
+  async requestHandoff(request: RequestHandoffArgs): Promise<HandoffRecord | undefined> {
     this.emitEvent({
       type: 'handoff_requested',
       call_id: request.call_id,
@@ -249,6 +883,331 @@ export class Orchestrator {
     });
 
     console.log(`Handoff requested for call ${request.call_id}: ${request.reason}`);
+
+    return this.handoffQueue.enqueue(request);
+  }
+
+  /**
+   * Check an utterance meant to ask a question against its verbatim text
+   * and add it to the question's compliance record in the snapshot
+   */
+  checkQuestionCompliance(
+    callId: string,
+    question: IntakeQuestion,
+    utterance: string,
+    source: 'llm' | 'verbatim' = 'llm'
+  ): QuestionCompliance {
+    const state = this.store.getSession(callId);
+    if (!state) {
+      throw new Error(`Session not found: ${callId}`);
+    }
+
+    const check = checkVerbatim(question.verbatim, utterance, this.verbatimTolerance);
+    state.snapshot.question_compliance = state.snapshot.question_compliance || {};
+    const compliance = state.snapshot.question_compliance[question.id] || {
+      question_id: question.id,
+      verbatim: question.verbatim,
+      compliant: false,
+      attempts: [],
+    };
+
+    // A retry follows a non-compliant attempt; a later re-ask starts over
+    const retried = compliance.attempts.length > 0 && !compliance.compliant;
+    compliance.attempts.push({
+      utterance,
+      source,
+      score: check.score,
+      compliant: check.compliant,
+      checked_at: new Date().toISOString(),
+    });
+    compliance.compliant = check.compliant;
+    if (check.compliant) {
+      compliance.resolution = !retried ? 'accepted' : source === 'verbatim' ? 'replaced' : 'regenerated';
+    }
+    state.snapshot.question_compliance[question.id] = compliance;
+    this.persist(state);
+
+    if (!check.compliant) {
+      console.warn(
+        `[${callId}] Question ${question.id} not asked verbatim (score ${check.score.toFixed(2)})`
+      );
+    }
+
+    this.emitEvent({
+      type: 'question_compliance',
+      call_id: callId,
+      timestamp: new Date().toISOString(),
+      data: { compliance },
+    });
+
+    return compliance;
+  }
+
+  /**
+   * Broadcast agent audio playback progress. A question counts as asked
+   * only once compliant audio for it played to the end, not when the
+   * patient barged in. Finished playback is stored as an agent turn with
+   * what was heard.
+   */
+  recordPlayback(callId: string, playback: TtsPlayback): void {
+    const state = this.store.getSession(callId);
+    const questionId = playback.question_id;
+    // Only a question heard to the end counts as an attempt; barge-ins do
+    // not. An ask was already counted by askQuestion, so it is not counted twice
+    if (state && questionId && playback.status !== 'started') {
+      const countedOnAsk = state.unplayed_question_id === questionId;
+      state.unplayed_question_id = undefined;
+      if (playback.status === 'completed' && !countedOnAsk) {
+        this.slotEngine.countQuestionAttempt(state, questionId);
+      } else if (playback.status === 'interrupted' && countedOnAsk) {
+        this.slotEngine.countQuestionAttempt(state, questionId, -1);
+      }
+
+      if (playback.status === 'completed' && state.snapshot.question_compliance?.[questionId]?.compliant) {
+        state.asked_question_ids = state.asked_question_ids || [];
+        if (!state.asked_question_ids.includes(questionId)) {
+          state.asked_question_ids.push(questionId);
+        }
+      }
+      this.persist(state);
+    }
+
+    if (state && playback.status !== 'started') {
+      this.recordAgentTurn(state, playback);
+    }
+
+    // The agent finished speaking: the patient's turn
+    if (state && playback.status === 'completed' && this.isAwaitingPatient(state)) {
+      this.noInputTimers.start(callId);
+    }
+
+    if (playback.status === 'interrupted') {
+      console.log(
+        `[${callId}] Agent interrupted after ${playback.heard_ms}ms of ${playback.duration_ms}ms`
+      );
+    }
+
+    this.emitEvent({
+      type: 'tts_playback',
+      call_id: callId,
+      timestamp: new Date().toISOString(),
+      data: { playback },
+    });
+  }
+
+  /**
+   * Store agent speech as a transcript turn timed by its playback: from
+   * the estimated start to the mark, or to the barge-in when interrupted
+   */
+  private recordAgentTurn(state: SlotEngineState, playback: TtsPlayback): void {
+    const text = playback.status === 'interrupted' ? playback.heard_text : playback.text;
+    if (!text) {
+      return;
+    }
+
+    const startMs = Date.parse(playback.started_at);
+    const endMs =
+      playback.status === 'interrupted'
+        ? startMs + (playback.heard_ms || 0)
+        : Date.parse(playback.completed_at || playback.started_at);
+
+    const turn = enrichTurn({
+      turn_id: `turn_${playback.playback_id}`,
+      call_id: state.call_id,
+      speaker: 'agent',
+      text,
+      start_ms: startMs,
+      end_ms: Math.max(startMs, endMs),
+      asr_confidence: 1,
+      is_final: true,
+    });
+
+    this.slotEngine.addTranscriptTurn(state, turn);
+    this.persist(state);
+    this.emitTurn(turn);
+  }
+
+  /**
+   * Whether the intake is waiting on the patient rather than finished or
+   * with staff
+   */
+  private isAwaitingPatient(state: SlotEngineState): boolean {
+    return (
+      !state.snapshot.completed &&
+      (!state.metadata || state.metadata.status === 'active') &&
+      !state.handoffs?.some((h) => h.status !== 'resolved')
+    );
+  }
+
+  /**
+   * The patient stayed silent after the agent spoke: repeat the open
+   * question or read-back, then rephrase it, then offer a callback or
+   * handoff. The handler speaks the action carried by the event.
+   */
+  private handleNoInput(callId: string, count: number): void {
+    const state = this.store.getSession(callId);
+    if (!state || !this.isAwaitingPatient(state)) {
+      return;
+    }
+
+    const question = state.questions[state.current_question_index];
+    const pending = state.pending_confirmation;
+    if (!question && !pending) {
+      return;
+    }
+
+    let step: 'reprompt' | 'rephrase' | 'offer';
+    let ssml: string;
+    let handoff: HandoffRecord | undefined;
+
+    if (count >= NO_INPUT_OFFER) {
+      step = 'offer';
+      handoff = this.handoffQueue.enqueue({
+        call_id: callId,
+        reason: `No response from caller after ${count} prompts`,
+        priority: 'normal',
+      });
+      ssml =
+        "I'm having trouble hearing you. Please stay on the line and a staff member will be with you, or we will call you back shortly.";
+    } else if (count >= NO_INPUT_REPHRASE) {
+      step = 'rephrase';
+      ssml = pending
+        ? `Please answer yes or no. ${pending.prompt}`
+        : `Let me put that another way. ${question.rephrase || question.verbatim}`;
+    } else {
+      step = 'reprompt';
+      ssml = `Sorry, I didn't hear anything. ${pending ? pending.prompt : question.verbatim}`;
+    }
+
+    console.log(`[${callId}] No input (${count}x), ${step}`);
+
+    const action: OrchestratorAction = { action: 'speak', data: { ssml, emotion: 'calm' } };
+    this.emitEvent({
+      type: 'no_input_timeout',
+      call_id: callId,
+      timestamp: new Date().toISOString(),
+      data: {
+        count,
+        step,
+        question_id: pending ? pending.question_id : question.id,
+        handoff_id: handoff?.handoff_id,
+        action,
+      },
+    });
+  }
+
+  /**
+   * Record that the live call was transferred to staff
+   */
+  recordTransfer(callId: string, redirect: CallRedirect): void {
+    this.updateSessionMetadata(callId, { transfer: redirect });
+
+    this.emitEvent({
+      type: 'call_transferred',
+      call_id: callId,
+      timestamp: new Date().toISOString(),
+      data: { target: redirect.target, mock: redirect.mock },
+    });
+  }
+
+  /**
+   * Open handoffs, highest priority and oldest first
+   */
+  getHandoffQueue(): HandoffRecord[] {
+    return this.handoffQueue.list();
+  }
+
+  findHandoff(handoffId: string): HandoffRecord | undefined {
+    return this.handoffQueue.find(handoffId);
+  }
+
+  /**
+   * Assign a queued handoff to a staff member
+   */
+  claimHandoff(handoffId: string, staffId: string): HandoffRecord {
+    const handoff = this.handoffQueue.claim(handoffId, staffId);
+    console.log(`Handoff ${handoffId} for call ${handoff.call_id} claimed by ${staffId}`);
+    return handoff;
+  }
+
+  /**
+   * Return a claimed handoff to the queue
+   */
+  releaseHandoff(handoffId: string, staffId: string): HandoffRecord {
+    const handoff = this.handoffQueue.release(handoffId, staffId);
+    console.log(`Handoff ${handoffId} for call ${handoff.call_id} released by ${staffId}`);
+    return handoff;
+  }
+
+  /**
+   * Close a handoff once staff have taken the caller
+   */
+  resolveHandoff(handoffId: string, staffId: string): HandoffRecord {
+    const handoff = this.handoffQueue.resolveHandoff(handoffId, staffId);
+    console.log(`Handoff ${handoffId} for call ${handoff.call_id} resolved by ${staffId}`);
+    return handoff;
+  }
+
+  /**
+   * Red flags raised during a call, with their status and audit trail
+   */
+  getRedFlags(callId: string): RedFlagRecord[] {
+    const state = this.store.getSession(callId);
+    if (!state) {
+      throw new Error(`Session not found: ${callId}`);
+    }
+
+    return state.red_flag_records || [];
+  }
+
+  /**
+   * Look up a red flag by id across all sessions
+   */
+  findRedFlag(flagId: string): RedFlagRecord | undefined {
+    for (const state of this.store.listSessions()) {
+      const record = state.red_flag_records?.find((r) => r.flag_id === flagId);
+      if (record) return record;
+    }
+    return undefined;
+  }
+
+  /**
+   * Acknowledge, dismiss or escalate a red flag on behalf of a staff member.
+   * Dismissing removes the flag from the snapshot; escalating requests a handoff.
+   */
+  async updateRedFlagStatus(
+    flagId: string,
+    status: RedFlagStatus,
+    actor: string,
+    note?: string
+  ): Promise<RedFlagRecord> {
+    const callId = this.findRedFlag(flagId)?.call_id;
+    const state = callId ? this.store.getSession(callId) : undefined;
+    const record = state?.red_flag_records?.find((r) => r.flag_id === flagId);
+    if (!state || !record) {
+      throw new Error(`Red flag not found: ${flagId}`);
+    }
+
+    transitionRedFlag(record, status, actor, note);
+    if (status === 'dismissed') {
+      record.dismissed_through_turn_id = state.turns[state.turns.length - 1]?.turn_id;
+      state.snapshot.red_flags = state.snapshot.red_flags.filter((id) => id !== record.rule_id);
+    }
+    this.persist(state);
+
+    console.log(`[RED FLAG] ${record.rule_id} on call ${record.call_id} ${status} by ${actor}`);
+    this.emitRedFlagUpdate(record);
+
+    if (status === 'escalated') {
+      await this.requestHandoff({
+        call_id: record.call_id,
+        reason: note || record.reason,
+        priority: record.priority,
+        rule_id: record.rule_id,
+      });
+    }
+
+    return record;
   }
 
   /**
@@ -261,31 +1220,95 @@ export class Orchestrator {
     confidence: number,
     evidenceTurnIds: string[]
   ): IntakeSnapshot {
-    const state = this.sessions.get(callId);
+    const state = this.store.getSession(callId);
     if (!state) {
       throw new Error(`Session not found: ${callId}`);
     }
 
-    const snapshot = this.slotEngine.updateSnapshot(
+    return this.applySlotUpdate(state, slot, value, confidence, evidenceTurnIds, 'llm');
+  }
+
+  /**
+   * Write an extracted value into the session and broadcast it
+   */
+  private applySlotUpdate(
+    state: SlotEngineState,
+    slot: string,
+    value: any,
+    confidence: number,
+    evidenceTurnIds: string[],
+    source: 'llm' | 'rules'
+  ): IntakeSnapshot {
+    const snapshot = this.slotEngine.reviseSlot(
       state,
       slot,
       value,
       confidence,
-      evidenceTurnIds
+      evidenceTurnIds,
+      source
     );
 
-    this.snapshots.set(callId, snapshot);
+    // A new value replaces whatever was being read back
+    if (state.pending_confirmation?.slot === slot) {
+      state.pending_confirmation = undefined;
+    }
+
+    this.persist(state);
 
+    const answer = snapshot.answers[slot];
     this.emitEvent({
       type: 'slot_updated',
-      call_id: callId,
+      call_id: state.call_id,
       timestamp: new Date().toISOString(),
-      data: { slot, value, confidence },
+      data: {
+        slot,
+        value: answer?.value,
+        confidence,
+        status: answer?.status,
+        reason: answer?.reason,
+        source,
+      },
     });
 
     return snapshot;
   }
 
+  /**
+   * Resolve a slot without a value and broadcast it. Declined and
+   * unknown_to_patient and unanswered slots are listed for staff follow-up.
+   */
+  private applyNonAnswer(
+    state: SlotEngineState,
+    slot: string,
+    answer: SlotAnswer,
+    source: 'rules' | 'policy'
+  ): void {
+    this.slotEngine.recordNonAnswer(state, slot, answer);
+    if (state.pending_confirmation?.slot === slot) {
+      state.pending_confirmation = undefined;
+    }
+    this.persist(state);
+
+    console.log(`[${state.call_id}] ${slot}: ${answer.status} (${answer.reason})`);
+
+    this.emitEvent({
+      type: 'slot_updated',
+      call_id: state.call_id,
+      timestamp: new Date().toISOString(),
+      data: {
+        slot,
+        confidence: answer.confidence,
+        status: answer.status,
+        reason: answer.reason,
+        source,
+        follow_up:
+          answer.status === 'declined' ||
+          answer.status === 'unknown_to_patient' ||
+          answer.status === 'unanswered',
+      },
+    });
+  }
+
   /**
    * Subscribe to orchestrator events
    */
@@ -293,10 +1316,7 @@ export class Orchestrator {
     callId: string,
     listener: (event: OrchestratorEvent) => void
   ): void {
-    if (!this.eventListeners.has(callId)) {
-      this.eventListeners.set(callId, []);
-    }
-    this.eventListeners.get(callId)!.push(listener);
+    this.bus.subscribe(callId, listener);
   }
 
   /**
@@ -306,56 +1326,80 @@ export class Orchestrator {
     callId: string,
     listener: (event: OrchestratorEvent) => void
   ): void {
-    const listeners = this.eventListeners.get(callId);
-    if (listeners) {
-      const index = listeners.indexOf(listener);
-      if (index > -1) {
-        listeners.splice(index, 1);
-      }
-    }
+    this.bus.unsubscribe(callId, listener);
   }
 
   /**
    * Emit event to listeners
    */
   private emitEvent(event: OrchestratorEvent): void {
-    const listeners = this.eventListeners.get(event.call_id);
-    if (listeners) {
-      for (const listener of listeners) {
-        try {
-          listener(event);
-        } catch (error) {
-          console.error('Error in event listener:', error);
-        }
-      }
-    }
+    this.bus.publish(event);
+  }
 
-    // Also emit to global listeners
-    const globalListeners = this.eventListeners.get('*');
-    if (globalListeners) {
-      for (const listener of globalListeners) {
-        try {
-          listener(event);
-        } catch (error) {
-          console.error('Error in global event listener:', error);
-        }
+  /**
+   * Write session state and its snapshot through to the store
+   */
+  private persist(state: SlotEngineState): void {
+    this.saveSnapshot(state.call_id, state.snapshot);
+    this.store.saveSession(state);
+  }
+
+  /**
+   * Store a snapshot as a new version when anything other than its
+   * timestamp changed, appending the changes to the call's history
+   */
+  private saveSnapshot(callId: string, snapshot: IntakeSnapshot): void {
+    const current = this.store.getSnapshot(callId);
+    const savedAt = new Date().toISOString();
+
+    if (current?.version) {
+      const changes = diffSnapshots(current, snapshot);
+      if (!hasContentChanges(changes)) {
+        snapshot.version = current.version;
+        return;
       }
+      snapshot.version = current.version + 1;
+      this.store.appendSnapshotVersion(callId, { version: snapshot.version, saved_at: savedAt, changes });
+    } else {
+      // The first version keeps the full snapshot the others are rebuilt from
+      snapshot.version = 1;
+      this.store.appendSnapshotVersion(callId, {
+        version: 1,
+        saved_at: savedAt,
+        changes: [],
+        snapshot: JSON.parse(JSON.stringify(snapshot)),
+      });
     }
+
+    this.store.saveSnapshot(callId, snapshot);
   }
 
   /**
    * Get all sessions
    */
   getAllSessions(): Map<string, SlotEngineState> {
-    return this.sessions;
+    return new Map(this.store.listSessions().map((state) => [state.call_id, state]));
   }
 
   /**
    * End session
    */
-  endSession(callId: string): void {
-    const state = this.sessions.get(callId);
-    if (state) {
+  endSession(callId: string, status: 'completed' | 'failed' = 'completed'): void {
+    const state = this.store.getSession(callId);
+
+    // Media stream stop and the Twilio status callback can both end a call
+    if (state && (!state.metadata || state.metadata.status === 'active')) {
+      this.updateSessionMetadata(callId, {
+        status,
+        ended_at: new Date().toISOString(),
+      });
+
+      // A caller transferred to the staff queue is still waiting there, so
+      // the handoff stays open (and under SLA) until staff resolve it
+      if (state.metadata?.transfer?.target.type !== 'queue') {
+        this.handoffQueue.resolve(callId);
+      }
+
       this.emitEvent({
         type: 'session_ended',
         call_id: callId,
@@ -365,13 +1409,32 @@ export class Orchestrator {
     }
 
     // Clean up listeners
-    this.eventListeners.delete(callId);
+    this.bus.clear(callId);
+    this.interimChecks.delete(callId);
+    this.noInputTimers.reset(callId);
   }
 }
 
 // Types for orchestrator actions and events
+export interface SessionOptions {
+  callSid?: string;
+  phoneNumber?: string;
+  templateId?: string;
+  templateVersion?: string;
+}
+
+export interface OrchestratorOptions {
+  store?: SessionStore;
+  bus?: EventBus;
+  maxConfirmationAttempts?: number;
+  ruleBasedExtraction?: boolean; // Defaults to on when OPENAI_API_KEY is unset
+  handoffSlaMs?: Partial<Record<HandoffPriority, number>>; // Per-priority claim SLA
+  verbatimTolerance?: number; // Fraction of a question's words an utterance may change
+  noInputTimeoutMs?: number; // Patient silence after agent speech before re-prompting
+}
+
 export interface OrchestratorAction {
-  action: 'none' | 'ask_question' | 'request_handoff' | 'speak';
+  action: 'none' | 'ask_question' | 'confirm_slot' | 'request_handoff' | 'speak';
   data?: any;
 }
 
@@ -382,12 +1445,26 @@ export interface OrchestratorEvent {
     | 'partial'
     | 'final'
     | 'red_flag_detected'
+    | 'red_flag_suppressed'
+    | 'red_flag_confirmed'
+    | 'red_flag_retracted'
+    | 'red_flag_updated'
     | 'snapshot_updated'
     | 'snapshot_update'
     | 'slot_updated'
+    | 'slot_corrected'
+    | 'confirmation_requested'
+    | 'slot_confirmed'
+    | 'slot_rejected'
+    | 'confirmation_escalated'
     | 'handoff_requested'
+    | 'handoff_queue_updated'
+    | 'handoff_escalated'
+    | 'call_transferred'
     | 'speak_request'
     | 'tts_playback'
+    | 'question_compliance'
+    | 'no_input_timeout'
     | 'twinmind_correction'
     | 'intake_completed'
     | 'session_ended';
@@ -0,0 +1,69 @@
+import { IntakeQuestion, PatientIntakeSnapshot } from '../types';
+import { Orchestrator } from './index';
+import { toIntakeSnapshot, toPatientIntakeSnapshot } from './legacy-adapter';
+import { InMemorySessionStore } from './session-store';
+
+const question = (id: string, slot: string): IntakeQuestion =>
+  ({ id, slot, verbatim: `${slot}?`, required: true, category: 'personal' }) as IntakeQuestion;
+
+describe('toIntakeSnapshot', () => {
+  it('maps legacy confirmations to slots through the template question ids', () => {
+    const legacy: PatientIntakeSnapshot = {
+      sessionId: 'session_1',
+      timestamp: new Date('2026-01-01T00:00:00.000Z'),
+      personalInfo: { name: 'Jane Doe', dateOfBirth: '1982-05-14' },
+      medicalInfo: { allergies: ['penicillin'], medications: [] },
+      visitReason: 'Headache',
+      requiredQuestions: [],
+      confirmedAnswers: new Map([
+        [
+          'q_birth_date',
+          { questionId: 'q_birth_date', answer: '1982-05-14', confirmed: true, confirmationAttempts: 1, timestamp: new Date() },
+        ],
+      ]),
+      rawTranscript: '',
+      version: 2,
+    };
+
+    const snapshot = toIntakeSnapshot('call_test', legacy, [
+      question('q_name', 'full_name'),
+      question('q_birth_date', 'dob'),
+    ]);
+
+    expect(snapshot.answers).toEqual({
+      full_name: { value: 'Jane Doe', confidence: 0.8, status: 'filled', evidence_turn_ids: [] },
+      dob: { value: '1982-05-14', confidence: 1.0, status: 'confirmed', evidence_turn_ids: [] },
+      chief_complaint: { value: 'Headache', confidence: 0.8, status: 'filled', evidence_turn_ids: [] },
+      allergies: { value: ['penicillin'], confidence: 0.8, status: 'filled', evidence_turn_ids: [] },
+    });
+    expect(snapshot.patient).toEqual({ full_name: 'Jane Doe', dob: '1982-05-14', callback_number: undefined });
+    expect(snapshot.timestamp).toBe('2026-01-01T00:00:00.000Z');
+  });
+
+  it('round-trips an orchestrator call through the legacy shape', async () => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    const orchestrator = new Orchestrator({ store: new InMemorySessionStore(), ruleBasedExtraction: true });
+    orchestrator.initializeSession('call_test');
+    const texts = ['My name is Jane Doe', 'May 14 1982', 'yes'];
+    for (const [i, text] of texts.entries()) {
+      await orchestrator.processTranscript({
+        turn_id: `turn_${i}`,
+        call_id: 'call_test',
+        speaker: 'patient',
+        text,
+        start_ms: i * 1000,
+        end_ms: i * 1000 + 500,
+        asr_confidence: 0.95,
+        is_final: true,
+      });
+    }
+    const state = orchestrator.getSession('call_test')!;
+
+    const snapshot = toIntakeSnapshot('call_test', toPatientIntakeSnapshot(state), state.questions);
+
+    expect(snapshot.answers.full_name).toMatchObject({ value: state.snapshot.answers.full_name.value, status: 'filled' });
+    expect(snapshot.answers.dob).toMatchObject({ value: state.snapshot.answers.dob.value, status: 'confirmed' });
+    orchestrator.endSession('call_test');
+    jest.restoreAllMocks();
+  });
+});
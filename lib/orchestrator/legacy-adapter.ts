@@ -0,0 +1,208 @@
+import {
+  ConfirmedAnswer,
+  IntakeQuestion,
+  IntakeSnapshot,
+  PatientIntakeSnapshot,
+  RequiredQuestion,
+  SlotAnswer,
+  SlotEngineState,
+  TranscriptEntry,
+  TranscriptTurn,
+  VoiceSession,
+} from '../types';
+
+/**
+ * Legacy Adapter
+ * Converts between the legacy SessionManager model (VoiceSession /
+ * PatientIntakeSnapshot) and the orchestrator model (SlotEngineState /
+ * IntakeSnapshot), so legacy consumers can read orchestrator-owned calls
+ * and legacy sessions are mirrored into the orchestrator.
+ */
+
+// Confidence assigned to legacy values, which carry no ASR/LLM confidence
+const LEGACY_CONFIDENCE = 0.8;
+const LEGACY_CONFIRMED_CONFIDENCE = 1.0;
+
+/**
+ * Build legacy RequiredQuestions from intake questions. A question counts
+ * as asked once its audio played to the end.
+ */
+export function toRequiredQuestions(
+  questions: IntakeQuestion[],
+  snapshot?: IntakeSnapshot,
+  askedQuestionIds: string[] = []
+): RequiredQuestion[] {
+  return questions
+    .filter((question) => question.required)
+    .map((question) => {
+      const answer = snapshot?.answers[question.slot];
+      return {
+        id: question.id,
+        question: question.verbatim,
+        verbatim: question.verbatim,
+        asked: askedQuestionIds.includes(question.id),
+        answered: answer?.status === 'filled' || answer?.status === 'confirmed',
+        category: question.category,
+        required: true as const,
+      };
+    });
+}
+
+/**
+ * Convert an orchestrator IntakeSnapshot into a legacy PatientIntakeSnapshot
+ */
+export function toPatientIntakeSnapshot(state: SlotEngineState): PatientIntakeSnapshot {
+  const { snapshot } = state;
+  const confirmedAnswers = new Map<string, ConfirmedAnswer>();
+
+  for (const question of state.questions) {
+    const answer = snapshot.answers[question.slot];
+    if (answer && (answer.status === 'filled' || answer.status === 'confirmed')) {
+      confirmedAnswers.set(question.id, {
+        questionId: question.id,
+        answer: formatValue(answer.value),
+        confirmed: answer.status === 'confirmed',
+        confirmationAttempts: state.confirmation_attempts?.[question.slot] || 0,
+        timestamp: new Date(snapshot.timestamp),
+      });
+    }
+  }
+
+  const chiefComplaint = filledValue(snapshot, 'chief_complaint');
+
+  return {
+    sessionId: state.call_id,
+    timestamp: new Date(snapshot.timestamp),
+    personalInfo: {
+      name: snapshot.patient?.full_name ?? filledValue(snapshot, 'full_name'),
+      dateOfBirth: snapshot.patient?.dob ?? filledValue(snapshot, 'dob'),
+      phoneNumber:
+        snapshot.patient?.callback_number ?? filledValue(snapshot, 'callback_number'),
+    },
+    medicalInfo: {
+      chiefComplaint,
+      symptoms: [],
+      allergies: toList(filledValue(snapshot, 'allergies')),
+      medications: toList(filledValue(snapshot, 'medications')),
+      medicalHistory: [],
+    },
+    visitReason: chiefComplaint,
+    requiredQuestions: toRequiredQuestions(state.questions, snapshot, state.asked_question_ids),
+    confirmedAnswers,
+    rawTranscript: state.turns.map((t) => `${t.speaker}: ${t.text}`).join('\n'),
+    version: snapshot.version ?? 1,
+  };
+}
+
+/**
+ * Convert a legacy PatientIntakeSnapshot into an orchestrator IntakeSnapshot.
+ * Legacy confirmations are keyed by question id, which `questions` (the
+ * call's template) maps to slots.
+ */
+export function toIntakeSnapshot(
+  callId: string,
+  legacy: PatientIntakeSnapshot,
+  questions: IntakeQuestion[]
+): IntakeSnapshot {
+  const answers: Record<string, SlotAnswer> = {};
+  const confirmedSlots = new Set(
+    Array.from(legacy.confirmedAnswers?.values() || [])
+      .filter((a) => a.confirmed)
+      .map((a) => questions.find((question) => question.id === a.questionId)?.slot)
+  );
+
+  const setAnswer = (slot: string, value: unknown) => {
+    if (value === undefined || value === null || value === '') return;
+    if (Array.isArray(value) && value.length === 0) return;
+
+    const confirmed = confirmedSlots.has(slot);
+    answers[slot] = {
+      value,
+      confidence: confirmed ? LEGACY_CONFIRMED_CONFIDENCE : LEGACY_CONFIDENCE,
+      status: confirmed ? 'confirmed' : 'filled',
+      evidence_turn_ids: [],
+    };
+  };
+
+  setAnswer('full_name', legacy.personalInfo.name);
+  setAnswer('dob', legacy.personalInfo.dateOfBirth);
+  setAnswer('callback_number', legacy.personalInfo.phoneNumber);
+  setAnswer('chief_complaint', legacy.medicalInfo.chiefComplaint || legacy.visitReason);
+  setAnswer('allergies', legacy.medicalInfo.allergies);
+  setAnswer('medications', legacy.medicalInfo.medications);
+
+  const patient = {
+    full_name: legacy.personalInfo.name,
+    dob: legacy.personalInfo.dateOfBirth,
+    callback_number: legacy.personalInfo.phoneNumber,
+  };
+
+  return {
+    call_id: callId,
+    patient: Object.values(patient).some(Boolean) ? patient : undefined,
+    answers,
+    red_flags: [],
+    completed: false,
+    timestamp: new Date(legacy.timestamp).toISOString(),
+  };
+}
+
+/**
+ * Convert orchestrator transcript turns into legacy transcript entries
+ */
+export function toTranscriptEntries(
+  turns: TranscriptTurn[],
+  startedAt: string
+): TranscriptEntry[] {
+  const start = new Date(startedAt).getTime();
+
+  return turns.map((turn) => ({
+    // start_ms is either call-relative or an epoch timestamp depending on the source
+    timestamp: new Date(turn.start_ms > start ? turn.start_ms : start + turn.start_ms),
+    speaker: turn.speaker,
+    text: turn.text,
+    confidence: turn.asr_confidence,
+    isFinal: turn.is_final !== false,
+  }));
+}
+
+/**
+ * Present an orchestrator session as a legacy VoiceSession
+ */
+export function toVoiceSession(state: SlotEngineState): VoiceSession {
+  const startedAt = state.metadata?.started_at || state.snapshot.timestamp;
+
+  return {
+    id: state.call_id,
+    phoneNumber: state.metadata?.phone_number || '',
+    callSid: state.metadata?.call_sid || state.call_id,
+    status: state.metadata?.status || 'active',
+    startTime: new Date(startedAt),
+    endTime: state.metadata?.ended_at ? new Date(state.metadata.ended_at) : undefined,
+    transcript: toTranscriptEntries(state.turns, startedAt),
+    snapshot: toPatientIntakeSnapshot(state),
+    audioRecordingUrl: state.metadata?.recording_url,
+  };
+}
+
+function filledValue(snapshot: IntakeSnapshot, slot: string): any {
+  const answer = snapshot.answers[slot];
+  return answer && (answer.status === 'filled' || answer.status === 'confirmed')
+    ? answer.value
+    : undefined;
+}
+
+function toList(value: unknown): string[] {
+  if (value === undefined || value === null) return [];
+  if (Array.isArray(value)) return value.map(String);
+  return String(value)
+    .split(/,|\band\b/)
+    .map((item) => item.trim())
+    .filter(Boolean);
+}
+
+function formatValue(value: unknown): string {
+  if (Array.isArray(value)) return value.join(', ');
+  if (value === undefined || value === null) return '';
+  return String(value);
+}
@@ -0,0 +1,47 @@
+import { Orchestrator } from './index';
+import { redactCurrentState } from './live-redaction';
+import { InMemorySessionStore } from './session-store';
+
+const CALL_ID = 'call_test';
+
+describe('redactCurrentState', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('masks the patient name and identifiers the agent spoke', async () => {
+    const orchestrator = new Orchestrator({ store: new InMemorySessionStore(), ruleBasedExtraction: true });
+    orchestrator.initializeSession(CALL_ID);
+    const turn = (turnId: string, speaker: 'agent' | 'patient', text: string) =>
+      orchestrator.processTranscript({
+        turn_id: turnId,
+        call_id: CALL_ID,
+        speaker,
+        text,
+        start_ms: 0,
+        end_ms: 500,
+        asr_confidence: 0.95,
+        is_final: true,
+      });
+
+    await turn('turn_1', 'patient', 'My name is Jane Doe');
+    await turn('turn_2', 'agent', 'Thanks Jane. I have your number as 555 867 5309.');
+    const dob = orchestrator.getSession(CALL_ID)!.questions.find((q) => q.slot === 'dob')!;
+    orchestrator.checkQuestionCompliance(CALL_ID, dob, `Jane Doe, ${dob.verbatim}`);
+
+    const state = redactCurrentState(orchestrator.getSession(CALL_ID)!);
+    const agentTurn = state.turns.find((t) => t.turn_id === 'turn_2')!;
+    const attempts = state.snapshot.question_compliance![dob.id].attempts;
+
+    expect(agentTurn.text).toBe('Thanks [NAME]. I have your number as [PHONE].');
+    expect(attempts.map((a) => a.utterance)).toEqual([`[NAME], ${dob.verbatim}`]);
+    expect(orchestrator.getSession(CALL_ID)!.snapshot.question_compliance![dob.id].attempts[0].utterance).toContain(
+      'Jane Doe'
+    );
+    orchestrator.endSession(CALL_ID);
+  });
+});
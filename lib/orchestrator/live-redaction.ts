@@ -0,0 +1,98 @@
+import { QuestionCompliance, SlotEngineState, TranscriptTurn } from '../types';
+import { redactSpeech, redactTurn } from './enrichment';
+import type { OrchestratorEvent } from './index';
+
+/**
+ * Live Redaction
+ * Copies of orchestrator events and session state that are safe for the
+ * /api/v1/live SSE stream: transcript text comes from the turn's redacted
+ * variant, and text the agent speaks has entities and the patient's name
+ * masked.
+ */
+
+/**
+ * Replace transcript text and spoken agent text with redacted variants
+ */
+export function redactEvent(event: OrchestratorEvent, patientName?: string): OrchestratorEvent {
+  const data = event.data;
+  const redact = (text?: string) => (text ? redactSpeech(text, patientName) : text);
+
+  switch (event.type) {
+    case 'tts_playback':
+      return {
+        ...event,
+        data: {
+          ...data,
+          playback: {
+            ...data.playback,
+            text: redact(data.playback.text),
+            heard_text: redact(data.playback.heard_text),
+          },
+        },
+      };
+    case 'confirmation_requested':
+      return { ...event, data: { ...data, prompt: redact(data.prompt) } };
+    case 'speak_request':
+      return { ...event, data: { ...data, ssml: redact(data.ssml) } };
+    case 'no_input_timeout':
+      if (!data.action?.data?.ssml) {
+        return event;
+      }
+      return {
+        ...event,
+        data: {
+          ...data,
+          action: { ...data.action, data: { ...data.action.data, ssml: redact(data.action.data.ssml) } },
+        },
+      };
+    case 'question_compliance':
+      return { ...event, data: { ...data, compliance: redactCompliance(data.compliance, patientName) } };
+  }
+
+  if (!data?.turn) {
+    return event;
+  }
+
+  return { ...event, data: { ...data, turn: redactLiveTurn(data.turn, patientName) } };
+}
+
+/**
+ * The state sent when a client subscribes to one call
+ */
+export function redactCurrentState(state: SlotEngineState) {
+  const patientName = state.snapshot.patient?.full_name;
+  const compliance = state.snapshot.question_compliance;
+
+  return {
+    snapshot: compliance
+      ? {
+          ...state.snapshot,
+          question_compliance: Object.fromEntries(
+            Object.entries(compliance).map(([questionId, entry]) => [
+              questionId,
+              redactCompliance(entry, patientName),
+            ])
+          ),
+        }
+      : state.snapshot,
+    turns: state.turns.map((turn) => redactLiveTurn(turn, patientName)),
+    red_flags: state.red_flag_records || [],
+  };
+}
+
+function redactLiveTurn(turn: TranscriptTurn, patientName?: string): TranscriptTurn {
+  const redacted = redactTurn(turn);
+  return redacted.speaker === 'agent'
+    ? { ...redacted, text: redactSpeech(redacted.text, patientName) }
+    : redacted;
+}
+
+function redactCompliance(compliance: QuestionCompliance, patientName?: string): QuestionCompliance {
+  return {
+    ...compliance,
+    attempts: compliance.attempts.map((attempt) => ({
+      ...attempt,
+      utterance: redactSpeech(attempt.utterance, patientName),
+    })),
+  };
+}
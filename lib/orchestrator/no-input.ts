@@ -0,0 +1,65 @@
+/**
+ * No-Input Timers
+ * Per-call turn-taking timers. A timer is armed when the agent finishes
+ * speaking and cancelled when the patient says anything; if it runs out,
+ * the callback receives the number of consecutive silences so the
+ * Orchestrator can escalate from re-prompt to rephrase to callback/handoff.
+ */
+
+export const DEFAULT_NO_INPUT_TIMEOUT_MS = 8000;
+
+// Consecutive silences at which each recovery step is taken
+export const NO_INPUT_REPROMPT = 1;
+export const NO_INPUT_REPHRASE = 2;
+export const NO_INPUT_OFFER = 3;
+
+export class NoInputTimers {
+  private timeoutMs: number;
+  private onTimeout: (callId: string, count: number) => void;
+  private timers: Map<string, ReturnType<typeof setTimeout>> = new Map();
+  private counts: Map<string, number> = new Map();
+
+  constructor(
+    onTimeout: (callId: string, count: number) => void,
+    timeoutMs: number = DEFAULT_NO_INPUT_TIMEOUT_MS
+  ) {
+    this.onTimeout = onTimeout;
+    this.timeoutMs = timeoutMs;
+  }
+
+  /**
+   * Start (or restart) waiting for the patient to speak
+   */
+  start(callId: string): void {
+    this.stop(callId);
+
+    const timer = setTimeout(() => {
+      this.timers.delete(callId);
+      const count = (this.counts.get(callId) || 0) + 1;
+      this.counts.set(callId, count);
+      this.onTimeout(callId, count);
+    }, this.timeoutMs);
+    // Do not keep the process alive just for turn-taking timers
+    timer.unref?.();
+    this.timers.set(callId, timer);
+  }
+
+  /**
+   * Stop waiting without resetting the silence count
+   */
+  stop(callId: string): void {
+    const timer = this.timers.get(callId);
+    if (timer) {
+      clearTimeout(timer);
+      this.timers.delete(callId);
+    }
+  }
+
+  /**
+   * The patient spoke: stop waiting and start counting silences afresh
+   */
+  reset(callId: string): void {
+    this.stop(callId);
+    this.counts.delete(callId);
+  }
+}
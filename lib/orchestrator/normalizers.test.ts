@@ -0,0 +1,19 @@
+import { normalizePhone } from './normalizers';
+
+describe('normalizePhone', () => {
+  it.each([
+    ['(555) 867-5309', '+15558675309'],
+    ['1 555 867 5309', '+15558675309'],
+    ['five five five, eight six seven, five three oh nine', '+15558675309'],
+    ['+44 20 7946 0958', '+442079460958'],
+  ])('normalizes %p', (text, expected) => {
+    expect(normalizePhone(text)).toEqual({ valid: true, value: expected });
+  });
+
+  it.each(['123 456 7890', '023 456 7890', '555 123 4567', '555 023 4567', '1 123 456 7890', '+1 555 123 4567'])(
+    'rejects %p, whose area code or exchange starts with 0 or 1',
+    (text) => {
+      expect(normalizePhone(text)).toEqual({ valid: false, reason: 'invalid_phone' });
+    }
+  );
+});
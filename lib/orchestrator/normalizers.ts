@@ -0,0 +1,371 @@
+import { IntakeQuestion } from '../types';
+
+/**
+ * Slot Normalizers
+ * Turn spoken/LLM-extracted answers into typed values according to
+ * IntakeQuestion.validation, or report a machine-readable failure reason.
+ */
+
+export type NormalizationResult =
+  | { valid: true; value: any }
+  | { valid: false; reason: NormalizationFailure };
+
+export type NormalizationFailure =
+  | 'empty_value'
+  | 'invalid_date'
+  | 'future_date' // Birth date after today
+  | 'implausible_date' // Birth year too long ago to be a living patient's
+  | 'invalid_phone'
+  | 'invalid_boolean'
+  | 'invalid_list';
+
+const MONTHS = [
+  'january', 'february', 'march', 'april', 'may', 'june',
+  'july', 'august', 'september', 'october', 'november', 'december',
+];
+
+const UNITS: Record<string, number> = {
+  zero: 0, oh: 0, one: 1, two: 2, three: 3, four: 4, five: 5, six: 6, seven: 7,
+  eight: 8, nine: 9, ten: 10, eleven: 11, twelve: 12, thirteen: 13, fourteen: 14,
+  fifteen: 15, sixteen: 16, seventeen: 17, eighteen: 18, nineteen: 19,
+};
+
+const TENS: Record<string, number> = {
+  twenty: 20, thirty: 30, forty: 40, fifty: 50, sixty: 60, seventy: 70, eighty: 80, ninety: 90,
+};
+
+const ORDINALS: Record<string, number> = {
+  first: 1, second: 2, third: 3, fourth: 4, fifth: 5, sixth: 6, seventh: 7, eighth: 8,
+  ninth: 9, tenth: 10, eleventh: 11, twelfth: 12, thirteenth: 13, fourteenth: 14,
+  fifteenth: 15, sixteenth: 16, seventeenth: 17, eighteenth: 18, nineteenth: 19,
+  twentieth: 20, thirtieth: 30,
+};
+
+const YES_WORDS = ['yes', 'yeah', 'yep', 'yup', 'correct', 'right', 'sure', 'affirmative', 'i do', 'i have', 'that is right', "that's right"];
+const NO_WORDS = ['no', 'nope', 'nah', 'not', 'never', 'negative', "don't", 'do not', "haven't", 'have not', 'incorrect', 'wrong'];
+// Yes-words under negation ("that's not right") read as a no
+// Oldest plausible age, in years, for a date of birth
+const MAX_AGE_YEARS = 130;
+
+// NANP area codes and exchanges never start with 0 or 1
+const NANP_NUMBER = /^[2-9]\d{2}[2-9]\d{6}$/;
+
+const NEGATED_YES_WORDS = ['not right', 'not correct', "isn't right", "isn't correct", 'not quite right', 'not true'];
+const NONE_WORDS = ['none', 'no', 'nope', 'nothing', 'not any', 'no medications', 'no allergies', "i don't take any", 'n/a'];
+
+/**
+ * Normalize a value according to a question's validation rules
+ */
+export function normalizeSlotValue(
+  validation: IntakeQuestion['validation'],
+  value: any,
+  slot?: string
+): NormalizationResult {
+  if (value === undefined || value === null || (typeof value === 'string' && value.trim() === '')) {
+    return { valid: false, reason: 'empty_value' };
+  }
+
+  switch (validation?.type) {
+    case 'date':
+      return slot === 'dob' ? normalizeBirthDate(value) : normalizeDate(value);
+    case 'boolean':
+      return normalizeBoolean(value);
+    case 'array':
+      return normalizeList(value);
+    case 'string':
+    default:
+      if (validation?.format === 'phone') {
+        return normalizePhone(value);
+      }
+      return { valid: true, value: typeof value === 'string' ? value.trim() : value };
+  }
+}
+
+/**
+ * Normalize a spoken or written date to ISO (YYYY-MM-DD)
+ * e.g. "May 14th, 1982", "5/14/82", "the fourteenth of May nineteen eighty two"
+ */
+export function normalizeDate(value: any): NormalizationResult {
+  const text = String(value).toLowerCase().replace(/,/g, ' ').replace(/\s+/g, ' ').trim();
+
+  // ISO: 1982-05-14
+  let match = text.match(/\b(\d{4})-(\d{1,2})-(\d{1,2})\b/);
+  if (match) {
+    return toIsoDate(+match[1], +match[2], +match[3]);
+  }
+
+  // US numeric: 5/14/1982, 5-14-82, 5.14.1982
+  match = text.match(/\b(\d{1,2})[/.-](\d{1,2})[/.-](\d{2}|\d{4})\b/);
+  if (match) {
+    return toIsoDate(expandYear(+match[3]), +match[1], +match[2]);
+  }
+
+  // Spoken: month name with day and year in either order
+  const monthIndex = MONTHS.findIndex((m) => new RegExp(`\\b${m}\\b|\\b${m.slice(0, 3)}\\b`).test(text));
+  if (monthIndex === -1) {
+    return { valid: false, reason: 'invalid_date' };
+  }
+
+  const monthName = MONTHS[monthIndex];
+  const withoutMonth = text
+    .replace(new RegExp(`\\b(${monthName}|${monthName.slice(0, 3)})\\b`), ' | ')
+    .replace(/\b(the|of|on|born|i was|my birthday is|it's|it is)\b/g, ' ');
+  const [before, after] = withoutMonth.split('|').map((part) => part.trim());
+
+  // "May 14th 1982" → day after month; "14th of May 1982" → day before month
+  let day: number | null = null;
+  let yearText = '';
+  const afterDay = readDay(after);
+  if (afterDay) {
+    day = afterDay.day;
+    yearText = afterDay.rest;
+  } else {
+    const beforeDay = readDay(before);
+    if (beforeDay) {
+      day = beforeDay.day;
+      yearText = after;
+    }
+  }
+
+  const year = readYear(yearText);
+  if (!day || !year) {
+    return { valid: false, reason: 'invalid_date' };
+  }
+
+  return toIsoDate(year, monthIndex + 1, day);
+}
+
+/**
+ * Normalize a date of birth, rejecting dates after today and years no
+ * living patient could be born in
+ */
+export function normalizeBirthDate(value: any): NormalizationResult {
+  const result = normalizeDate(value);
+  if (!result.valid) {
+    return result;
+  }
+
+  const today = new Date().toISOString().slice(0, 10);
+  if (result.value > today) {
+    return { valid: false, reason: 'future_date' };
+  }
+  if (Number(result.value.slice(0, 4)) < new Date().getUTCFullYear() - MAX_AGE_YEARS) {
+    return { valid: false, reason: 'implausible_date' };
+  }
+
+  return result;
+}
+
+/**
+ * Normalize a spoken or written phone number to E.164 (US default)
+ * e.g. "five five five, two three four, five six seven eight", "(555) 234-5678".
+ * Ten-digit numbers must be valid NANP numbers.
+ */
+export function normalizePhone(value: any): NormalizationResult {
+  const text = String(value)
+    .toLowerCase()
+    // "double five" / "triple seven"
+    .replace(/\b(double|triple) (\w+)\b/g, (phrase: string, times: string, word: string) => {
+      const digit = word in UNITS && UNITS[word] < 10 ? String(UNITS[word]) : /^\d$/.test(word) ? word : '';
+      return digit ? digit.repeat(times === 'double' ? 2 : 3) : phrase;
+    });
+
+  let digits = '';
+  for (const token of text.split(/[\s,.\-()]+/)) {
+    if (/^\+?\d+$/.test(token)) {
+      digits += token.replace(/\D/g, '');
+    } else if (token in UNITS && UNITS[token] < 10) {
+      digits += String(UNITS[token]);
+    }
+  }
+
+  const national =
+    digits.length === 10 ? digits : digits.length === 11 && digits.startsWith('1') ? digits.slice(1) : null;
+  if (national) {
+    return NANP_NUMBER.test(national)
+      ? { valid: true, value: `+1${national}` }
+      : { valid: false, reason: 'invalid_phone' };
+  }
+  if (text.trim().startsWith('+') && digits.length >= 8 && digits.length <= 15) {
+    return { valid: true, value: `+${digits}` };
+  }
+
+  return { valid: false, reason: 'invalid_phone' };
+}
+
+/**
+ * Normalize a yes/no answer to a boolean
+ */
+export function normalizeBoolean(value: any): NormalizationResult {
+  if (typeof value === 'boolean') {
+    return { valid: true, value };
+  }
+
+  const parsed = parseYesNo(String(value));
+  if (parsed === null) {
+    return { valid: false, reason: 'invalid_boolean' };
+  }
+  return { valid: true, value: parsed };
+}
+
+/**
+ * Normalize a spoken list ("lisinopril, metformin and aspirin") to an array.
+ * "None"-style answers become an empty array.
+ */
+export function normalizeList(value: any): NormalizationResult {
+  if (Array.isArray(value)) {
+    return { valid: true, value: value.map((item) => String(item).trim()).filter(Boolean) };
+  }
+
+  if (typeof value !== 'string') {
+    return { valid: false, reason: 'invalid_list' };
+  }
+
+  const text = value.trim().replace(/[.!]+$/, '');
+  if (NONE_WORDS.includes(text.toLowerCase())) {
+    return { valid: true, value: [] };
+  }
+
+  const items = text
+    .split(/,|;|\band\b|\bplus\b|\balso\b/i)
+    .map((item) => item.trim())
+    .filter(Boolean);
+
+  return { valid: true, value: items };
+}
+
+/**
+ * Interpret a yes/no utterance; null when ambiguous
+ */
+export function parseYesNo(text: string): boolean | null {
+  const normalized = text.toLowerCase().replace(/[^a-z' ]/g, ' ').replace(/\s+/g, ' ').trim();
+  const hasWord = (words: string[]) =>
+    words.some((word) => new RegExp(`(^|\\s)${word}(\\s|$)`).test(normalized));
+
+  if (hasWord(NEGATED_YES_WORDS)) {
+    return false;
+  }
+
+  const yes = hasWord(YES_WORDS);
+  const no = hasWord(NO_WORDS);
+
+  if (yes && !no) return true;
+  if (no && !yes) return false;
+  return null;
+}
+
+/**
+ * Find a bare day of the month ("the 15th", "the fifteenth"), as used
+ * when a patient corrects only the day of a date
+ */
+export function findDayOfMonth(text: string): number | null {
+  const words = text.toLowerCase().replace(/[^a-z0-9\s-]/g, ' ').split(/\s+/).filter(Boolean);
+
+  for (let i = 0; i < words.length; i++) {
+    // A plain number is only a day after "the": "the 15", not "15 minutes"
+    if (/^\d+$/.test(words[i]) && words[i - 1] !== 'the') {
+      continue;
+    }
+
+    const day = readDay(words.slice(i).join(' '));
+    if (day && day.day >= 1 && day.day <= 31) {
+      return day.day;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Parse a spoken number ("twenty three", "forty-two") or digits
+ */
+export function wordsToNumber(text: string): number | null {
+  const tokens = text.toLowerCase().replace(/-/g, ' ').split(/\s+/).filter(Boolean);
+  if (tokens.length === 0) return null;
+
+  let total = 0;
+  let matched = false;
+  for (const token of tokens) {
+    if (/^\d+$/.test(token)) {
+      total += parseInt(token, 10);
+    } else if (token in UNITS) {
+      total += UNITS[token];
+    } else if (token in TENS) {
+      total += TENS[token];
+    } else if (token === 'hundred') {
+      total = (total || 1) * 100;
+    } else if (token !== 'and') {
+      return null;
+    }
+    matched = true;
+  }
+
+  return matched ? total : null;
+}
+
+function readDay(text: string | undefined): { day: number; rest: string } | null {
+  if (!text) return null;
+
+  const digits = text.match(/^(\d{1,2})(st|nd|rd|th)?\b(.*)$/);
+  if (digits) {
+    return { day: +digits[1], rest: digits[3].trim() };
+  }
+
+  // Spoken ordinal: "fourteenth", "twenty first", "thirty-first"
+  const tokens = text.replace(/-/g, ' ').split(/\s+/);
+  if (tokens[0] in TENS && tokens[1] && tokens[1] in ORDINALS) {
+    return { day: TENS[tokens[0]] + ORDINALS[tokens[1]], rest: tokens.slice(2).join(' ') };
+  }
+  if (tokens[0] in ORDINALS) {
+    return { day: ORDINALS[tokens[0]], rest: tokens.slice(1).join(' ') };
+  }
+
+  return null;
+}
+
+function readYear(text: string): number | null {
+  const trimmed = text.trim();
+  if (!trimmed) return null;
+
+  const digits = trimmed.match(/\b(\d{4}|\d{2})\b/);
+  if (digits) {
+    return expandYear(+digits[1]);
+  }
+
+  // "two thousand five", "two thousand and twelve"
+  const thousand = trimmed.match(/^two thousand(?: and)?(.*)$/);
+  if (thousand) {
+    const rest = thousand[1].trim();
+    return 2000 + (rest ? wordsToNumber(rest) ?? NaN : 0) || null;
+  }
+
+  // "nineteen eighty two" → 19 | 82, "twenty oh five" → 20 | 05
+  const tokens = trimmed.replace(/-/g, ' ').split(/\s+/);
+  const century = wordsToNumber(tokens[0]);
+  const remainder = wordsToNumber(tokens.slice(1).join(' '));
+  if (century !== null && century >= 10 && century <= 20 && remainder !== null && remainder < 100) {
+    return century * 100 + remainder;
+  }
+
+  return null;
+}
+
+function expandYear(year: number): number {
+  if (year >= 100) return year;
+  const currentTwoDigit = new Date().getFullYear() % 100;
+  return year > currentTwoDigit ? 1900 + year : 2000 + year;
+}
+
+function toIsoDate(year: number, month: number, day: number): NormalizationResult {
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (
+    Number.isNaN(date.getTime()) ||
+    date.getUTCFullYear() !== year ||
+    date.getUTCMonth() !== month - 1 ||
+    date.getUTCDate() !== day
+  ) {
+    return { valid: false, reason: 'invalid_date' };
+  }
+
+  return { valid: true, value: date.toISOString().slice(0, 10) };
+}
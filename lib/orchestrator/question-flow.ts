@@ -0,0 +1,291 @@
+import { ConditionExpression, IntakeQuestion, SlotAnswer } from '../types';
+
+/**
+ * Question Flow
+ * Evaluates branching rules on intake questions (conditions, skip_if,
+ * follow_ups) and validates that a question set can actually be walked.
+ */
+
+export interface FlowDecision {
+  action: 'ask' | 'skip' | 'defer';
+  reason?: FlowSkipReason;
+}
+
+export type FlowSkipReason = 'skip_if' | 'condition_not_met' | 'parent_not_applicable';
+
+export const FLOW_SKIP_REASONS: FlowSkipReason[] = [
+  'skip_if',
+  'condition_not_met',
+  'parent_not_applicable',
+];
+
+// Spoken answers that mean "nothing" for emptiness checks
+const EMPTY_ANSWERS = ['none', 'no', 'nope', 'nothing', 'n/a', 'not applicable'];
+
+/**
+ * Evaluate a condition against the current answers.
+ * Returns null while any referenced slot is still unresolved.
+ */
+export function evaluateCondition(
+  expression: ConditionExpression,
+  answers: Record<string, SlotAnswer>
+): boolean | null {
+  if ('all' in expression) {
+    const results = expression.all.map((e) => evaluateCondition(e, answers));
+    if (results.includes(false)) return false;
+    if (results.includes(null)) return null;
+    return true;
+  }
+
+  if ('any' in expression) {
+    const results = expression.any.map((e) => evaluateCondition(e, answers));
+    if (results.includes(true)) return true;
+    if (results.includes(null)) return null;
+    return false;
+  }
+
+  if ('not' in expression) {
+    const result = evaluateCondition(expression.not, answers);
+    return result === null ? null : !result;
+  }
+
+  const answer = answers[expression.slot];
+  if (!answer || answer.status === 'unknown') {
+    return null;
+  }
+
+  const value =
+    answer.status === 'filled' || answer.status === 'confirmed' ? answer.value : undefined;
+  return applyOperator(expression.op, value, expression.value);
+}
+
+/**
+ * Decide whether a question should be asked now, skipped as
+ * not_applicable, or deferred until the slots it depends on are answered
+ */
+export function decideQuestion(
+  question: IntakeQuestion,
+  answers: Record<string, SlotAnswer>,
+  parent?: IntakeQuestion
+): FlowDecision {
+  if (parent) {
+    const parentAnswer = answers[parent.slot];
+    if (!parentAnswer || parentAnswer.status === 'unknown') return { action: 'defer' };
+    if (parentAnswer.status === 'not_applicable') {
+      return { action: 'skip', reason: 'parent_not_applicable' };
+    }
+  }
+
+  if (question.skip_if) {
+    const skip = evaluateCondition(question.skip_if, answers);
+    if (skip === true) return { action: 'skip', reason: 'skip_if' };
+    if (skip === null) return { action: 'defer' };
+  }
+
+  for (const condition of question.conditions || []) {
+    const result = evaluateCondition(condition, answers);
+    if (result === false) return { action: 'skip', reason: 'condition_not_met' };
+    if (result === null) return { action: 'defer' };
+  }
+
+  return { action: 'ask' };
+}
+
+/**
+ * Order questions so each follow-up comes directly after its parent
+ */
+export function orderQuestions(questions: IntakeQuestion[]): IntakeQuestion[] {
+  const byId = new Map(questions.map((q) => [q.id, q]));
+  const followUpIds = new Set(questions.flatMap((q) => q.follow_ups || []));
+  const ordered: IntakeQuestion[] = [];
+  const visited = new Set<string>();
+
+  const visit = (question: IntakeQuestion) => {
+    if (visited.has(question.id)) return;
+    visited.add(question.id);
+    ordered.push(question);
+
+    for (const id of question.follow_ups || []) {
+      const followUp = byId.get(id);
+      if (followUp) visit(followUp);
+    }
+  };
+
+  for (const question of questions) {
+    if (!followUpIds.has(question.id)) {
+      visit(question);
+    }
+  }
+
+  return ordered;
+}
+
+/**
+ * Map each follow-up question id to its parent question
+ */
+export function getParents(questions: IntakeQuestion[]): Map<string, IntakeQuestion> {
+  const parents = new Map<string, IntakeQuestion>();
+  for (const question of questions) {
+    for (const id of question.follow_ups || []) {
+      parents.set(id, question);
+    }
+  }
+  return parents;
+}
+
+/**
+ * Validate a question set: unknown references, cycles and unreachable questions
+ */
+export function validateQuestionFlow(
+  questions: IntakeQuestion[]
+): { valid: boolean; errors: string[] } {
+  const errors: string[] = [];
+  const byId = new Map<string, IntakeQuestion>();
+  const bySlot = new Map<string, IntakeQuestion>();
+
+  for (const question of questions) {
+    if (byId.has(question.id)) {
+      errors.push(`Duplicate question id: ${question.id}`);
+    }
+    if (bySlot.has(question.slot)) {
+      errors.push(`Duplicate slot: ${question.slot}`);
+    }
+    byId.set(question.id, question);
+    bySlot.set(question.slot, question);
+  }
+
+  // Follow-up references
+  const parentOf = new Map<string, string>();
+  for (const question of questions) {
+    for (const id of question.follow_ups || []) {
+      if (!byId.has(id)) {
+        errors.push(`Question ${question.id} has unknown follow-up: ${id}`);
+        continue;
+      }
+      if (parentOf.has(id) && parentOf.get(id) !== question.id) {
+        errors.push(`Question ${id} is a follow-up of both ${parentOf.get(id)} and ${question.id}`);
+      }
+      parentOf.set(id, question.id);
+    }
+  }
+
+  // Dependency graph: a question depends on its parent and on every
+  // question that fills a slot referenced by its conditions
+  const unreachable = new Set<string>();
+  const dependencies = new Map<string, string[]>();
+
+  for (const question of questions) {
+    const deps: string[] = [];
+    const parentId = parentOf.get(question.id);
+    if (parentId) deps.push(parentId);
+
+    const expressions = [...(question.conditions || [])];
+    if (question.skip_if) expressions.push(question.skip_if);
+
+    for (const slot of expressions.flatMap(referencedSlots)) {
+      const source = bySlot.get(slot);
+      if (!source) {
+        errors.push(`Question ${question.id} is unreachable: condition references unknown slot ${slot}`);
+        unreachable.add(question.id);
+      } else {
+        deps.push(source.id);
+      }
+    }
+
+    dependencies.set(question.id, deps);
+  }
+
+  // Cycles would leave every question on the cycle deferred forever
+  const state = new Map<string, 'visiting' | 'done'>();
+  const visit = (id: string, path: string[]): void => {
+    if (state.get(id) === 'done') return;
+    if (state.get(id) === 'visiting') {
+      const cycle = path.slice(path.indexOf(id)).concat(id);
+      errors.push(`Cyclic question dependency: ${cycle.join(' -> ')}`);
+      return;
+    }
+
+    state.set(id, 'visiting');
+    for (const dep of dependencies.get(id) || []) {
+      visit(dep, [...path, id]);
+    }
+    state.set(id, 'done');
+  };
+
+  for (const question of questions) {
+    visit(question.id, []);
+  }
+
+  // Anything depending on an unreachable question is unreachable too
+  let changed = true;
+  while (changed) {
+    changed = false;
+    for (const [id, deps] of dependencies) {
+      if (!unreachable.has(id) && deps.some((dep) => unreachable.has(dep))) {
+        unreachable.add(id);
+        errors.push(`Question ${id} is unreachable: depends on unreachable question`);
+        changed = true;
+      }
+    }
+  }
+
+  return {
+    valid: errors.length === 0,
+    errors,
+  };
+}
+
+/**
+ * Collect the slots a condition expression reads
+ */
+export function referencedSlots(expression: ConditionExpression): string[] {
+  if ('all' in expression) return expression.all.flatMap(referencedSlots);
+  if ('any' in expression) return expression.any.flatMap(referencedSlots);
+  if ('not' in expression) return referencedSlots(expression.not);
+  return [expression.slot];
+}
+
+function applyOperator(op: string, actual: any, expected: any): boolean {
+  switch (op) {
+    case 'empty':
+      return isEmpty(actual);
+    case 'not_empty':
+      return !isEmpty(actual);
+    case 'equals':
+      return normalize(actual) === normalize(expected);
+    case 'not_equals':
+      return normalize(actual) !== normalize(expected);
+    case 'in':
+      return Array.isArray(expected) && expected.map(normalize).includes(normalize(actual));
+    case 'not_in':
+      return !Array.isArray(expected) || !expected.map(normalize).includes(normalize(actual));
+    case 'contains':
+      if (Array.isArray(actual)) return actual.map(normalize).includes(normalize(expected));
+      return typeof actual === 'string' && actual.toLowerCase().includes(String(expected).toLowerCase());
+    case 'gt':
+      return Number(actual) > Number(expected);
+    case 'gte':
+      return Number(actual) >= Number(expected);
+    case 'lt':
+      return Number(actual) < Number(expected);
+    case 'lte':
+      return Number(actual) <= Number(expected);
+    default:
+      console.warn(`Unknown condition operator: ${op}`);
+      return false;
+  }
+}
+
+function isEmpty(value: any): boolean {
+  if (value === undefined || value === null) return true;
+  if (Array.isArray(value)) return value.length === 0;
+  if (typeof value === 'string') {
+    const text = value.trim().toLowerCase();
+    return text === '' || EMPTY_ANSWERS.includes(text);
+  }
+  return false;
+}
+
+function normalize(value: any): any {
+  return typeof value === 'string' ? value.trim().toLowerCase() : value;
+}
@@ -0,0 +1,85 @@
+import { RedFlagDetection, RedFlagRecord, RedFlagStatus } from '../types';
+
+/**
+ * Red Flag Lifecycle
+ * A detected red flag is acknowledged, dismissed or escalated by staff
+ * (or escalated by the system on automatic handoff). Every change is
+ * appended to the flag's audit trail.
+ */
+
+export const SYSTEM_ACTOR = 'system';
+
+const TRANSITIONS: Record<RedFlagStatus, RedFlagStatus[]> = {
+  detected: ['acknowledged', 'dismissed', 'escalated'],
+  acknowledged: ['dismissed', 'escalated'],
+  escalated: ['acknowledged', 'dismissed'],
+  dismissed: [],
+};
+
+/**
+ * New red flag record for a detection
+ */
+export function createRedFlagRecord(
+  flagId: string,
+  callId: string,
+  detection: RedFlagDetection
+): RedFlagRecord {
+  const now = new Date().toISOString();
+  return {
+    flag_id: flagId,
+    call_id: callId,
+    rule_id: detection.rule_id,
+    reason: detection.reason,
+    priority: detection.priority,
+    evidence: detection.evidence,
+    evidence_turn_ids: detection.evidence_turn_ids,
+    score: detection.score,
+    status: 'detected',
+    detected_at: now,
+    audit: [{ status: 'detected', actor: SYSTEM_ACTOR, at: now }],
+  };
+}
+
+export function canTransitionRedFlag(record: RedFlagRecord, status: RedFlagStatus): boolean {
+  return TRANSITIONS[record.status].includes(status);
+}
+
+/**
+ * Move a record to a new status, recording who did it and when.
+ * Dismissal requires a reason.
+ */
+export function transitionRedFlag(
+  record: RedFlagRecord,
+  status: RedFlagStatus,
+  actor: string,
+  note?: string
+): RedFlagRecord {
+  if (!canTransitionRedFlag(record, status)) {
+    throw new Error(`Cannot change red flag ${record.flag_id} from ${record.status} to ${status}`);
+  }
+  if (status === 'dismissed' && !note?.trim()) {
+    throw new Error('A reason is required to dismiss a red flag');
+  }
+
+  const at = new Date().toISOString();
+  record.status = status;
+  record.audit.push({ status, actor, at, ...(note ? { note } : {}) });
+
+  switch (status) {
+    case 'acknowledged':
+      record.acknowledged_by = actor;
+      record.acknowledged_at = at;
+      break;
+    case 'dismissed':
+      record.dismissed_by = actor;
+      record.dismissed_at = at;
+      record.dismissal_reason = note;
+      break;
+    case 'escalated':
+      record.escalated_by = actor;
+      record.escalated_at = at;
+      break;
+  }
+
+  return record;
+}
@@ -0,0 +1,293 @@
+import fs from 'fs';
+import path from 'path';
+import { RedFlagRule, RedFlagRuleSet } from '../types';
+import bundledRuleSet from '../../shared/schemas/red_flags.json';
+
+export const DEFAULT_RULE_PACK = 'default';
+export const DEFAULT_MATCH_THRESHOLD = 0.85;
+
+const PRIORITIES = ['urgent', 'high', 'normal'];
+const RULE_ID_PATTERN = /^[a-z0-9_]+$/;
+const VERSION_PATTERN = /^\d+\.\d+\.\d+$/;
+
+// Minimum time between checks of the rules file for changes
+const RELOAD_CHECK_INTERVAL_MS = 1000;
+
+/**
+ * Red Flag Rule Registry
+ * Loads versioned red-flag rule packs from JSON (RED_FLAG_RULES_PATH, or
+ * shared/schemas/red_flags.json) and reloads them when the file changes.
+ * An invalid edit is rejected and the last valid rules stay in effect;
+ * an invalid file at startup falls back to the bundled rules.
+ */
+export class RedFlagRuleRegistry {
+  private ruleSet: RedFlagRuleSet;
+  private filePath: string | null;
+  private loadedMtimeMs = 0;
+  private lastCheckedAt = 0;
+
+  constructor(filePath: string | null = resolveRulesPath()) {
+    this.filePath = filePath && fs.existsSync(filePath) ? filePath : null;
+    this.ruleSet = this.loadInitial();
+  }
+
+  /**
+   * Rules in effect for a template: the default pack, overridden or
+   * extended by the template's own pack. Disabled rules are left out.
+   */
+  getRules(templateId?: string): RedFlagRule[] {
+    this.reloadIfChanged();
+
+    const rules = new Map<string, RedFlagRule>();
+    const findPack = (id: string) => this.ruleSet.packs.find((pack) => pack.template_id === id);
+
+    // Default pack first so template rules win on id clashes
+    const packs = [findPack(DEFAULT_RULE_PACK)];
+    if (templateId && templateId !== DEFAULT_RULE_PACK) {
+      packs.push(findPack(templateId));
+    }
+
+    for (const pack of packs) {
+      if (!pack) continue;
+      for (const rule of pack.rules) {
+        rules.set(rule.id, rule);
+      }
+    }
+
+    return Array.from(rules.values()).filter((rule) => rule.enabled !== false);
+  }
+
+  /**
+   * Look up a rule by id across all packs
+   */
+  getRule(id: string): RedFlagRule | undefined {
+    this.reloadIfChanged();
+
+    for (const pack of this.ruleSet.packs) {
+      const rule = pack.rules.find((r) => r.id === id);
+      if (rule) return rule;
+    }
+    return undefined;
+  }
+
+  /**
+   * Minimum match score for a rule's tokens
+   */
+  getMatchThreshold(rule?: RedFlagRule): number {
+    this.reloadIfChanged();
+    return rule?.min_score ?? this.ruleSet.match_threshold ?? DEFAULT_MATCH_THRESHOLD;
+  }
+
+  /**
+   * A rule token together with its configured synonyms
+   */
+  getVariants(token: string): string[] {
+    this.reloadIfChanged();
+    return [token, ...(this.ruleSet.synonyms?.[token.toLowerCase()] || [])];
+  }
+
+  /**
+   * Version of the rule set currently in effect
+   */
+  getVersion(): string {
+    this.reloadIfChanged();
+    return this.ruleSet.version;
+  }
+
+  /**
+   * Re-read the rules file. Returns false (and keeps the current rules)
+   * when the file is missing or invalid.
+   */
+  reload(): boolean {
+    if (!this.filePath) {
+      return false;
+    }
+
+    try {
+      const ruleSet = this.readFile(this.filePath);
+      if (ruleSet.version !== this.ruleSet.version) {
+        console.log(`Red flag rules reloaded: ${this.ruleSet.version} -> ${ruleSet.version}`);
+      }
+      this.ruleSet = ruleSet;
+      return true;
+    } catch (error) {
+      console.error('Failed to reload red flag rules, keeping previous rules:', error);
+      return false;
+    }
+  }
+
+  private reloadIfChanged(): void {
+    if (!this.filePath || Date.now() - this.lastCheckedAt < RELOAD_CHECK_INTERVAL_MS) {
+      return;
+    }
+    this.lastCheckedAt = Date.now();
+
+    try {
+      const mtimeMs = fs.statSync(this.filePath).mtimeMs;
+      if (mtimeMs !== this.loadedMtimeMs) {
+        // Remember the change even if it is rejected, so a bad edit is reported once
+        this.loadedMtimeMs = mtimeMs;
+        this.reload();
+      }
+    } catch (error) {
+      console.error('Failed to check red flag rules file:', error);
+    }
+  }
+
+  /**
+   * Rules from the file, or the bundled rules when the file is invalid,
+   * so a bad rules file cannot stop the orchestrator from starting
+   */
+  private loadInitial(): RedFlagRuleSet {
+    if (!this.filePath) {
+      return parseRuleSet(bundledRuleSet);
+    }
+
+    try {
+      return this.readFile(this.filePath);
+    } catch (error) {
+      console.error('Failed to load red flag rules, using bundled rules:', error);
+      // Not retried until the file changes again
+      this.loadedMtimeMs = fs.statSync(this.filePath).mtimeMs;
+      return parseRuleSet(bundledRuleSet);
+    }
+  }
+
+  private readFile(filePath: string): RedFlagRuleSet {
+    const mtimeMs = fs.statSync(filePath).mtimeMs;
+    const ruleSet = parseRuleSet(JSON.parse(fs.readFileSync(filePath, 'utf-8')));
+    this.loadedMtimeMs = mtimeMs;
+    return ruleSet;
+  }
+}
+
+/**
+ * Validate a rule set against the red_flags.json schema
+ */
+export function validateRuleSet(data: any): { valid: boolean; errors: string[] } {
+  const errors: string[] = [];
+
+  if (!data || typeof data !== 'object') {
+    return { valid: false, errors: ['Rule set must be an object'] };
+  }
+  if (typeof data.version !== 'string' || !VERSION_PATTERN.test(data.version)) {
+    errors.push('version must be a semantic version string');
+  }
+  if (data.match_threshold !== undefined && !isScore(data.match_threshold)) {
+    errors.push('match_threshold must be a number between 0 and 1');
+  }
+  if (data.synonyms !== undefined) {
+    const validSynonyms =
+      typeof data.synonyms === 'object' &&
+      !Array.isArray(data.synonyms) &&
+      Object.values(data.synonyms).every(
+        (list: any) => Array.isArray(list) && list.every((s: any) => typeof s === 'string' && s.trim() !== '')
+      );
+    if (!validSynonyms) {
+      errors.push('synonyms must map tokens to arrays of non-empty strings');
+    }
+  }
+  if (!Array.isArray(data.packs)) {
+    errors.push('packs must be an array');
+    return { valid: false, errors };
+  }
+
+  const templateIds = new Set<string>();
+  data.packs.forEach((pack: any, p: number) => {
+    if (!pack || typeof pack.template_id !== 'string' || !pack.template_id) {
+      errors.push(`packs[${p}].template_id is required`);
+      return;
+    }
+    if (templateIds.has(pack.template_id)) {
+      errors.push(`Duplicate pack for template: ${pack.template_id}`);
+    }
+    templateIds.add(pack.template_id);
+
+    if (!Array.isArray(pack.rules)) {
+      errors.push(`Pack ${pack.template_id}: rules must be an array`);
+      return;
+    }
+
+    const ruleIds = new Set<string>();
+    pack.rules.forEach((rule: any, r: number) => {
+      const where = `Pack ${pack.template_id} rule ${rule?.id ?? r}`;
+      if (typeof rule?.id !== 'string' || !RULE_ID_PATTERN.test(rule.id)) {
+        errors.push(`${where}: id must match ${RULE_ID_PATTERN}`);
+      } else if (ruleIds.has(rule.id)) {
+        errors.push(`${where}: duplicate rule id`);
+      } else {
+        ruleIds.add(rule.id);
+      }
+      if (typeof rule?.reason !== 'string' || !rule.reason) {
+        errors.push(`${where}: reason is required`);
+      }
+      if (!PRIORITIES.includes(rule?.priority)) {
+        errors.push(`${where}: priority must be one of ${PRIORITIES.join(', ')}`);
+      }
+      if (rule?.enabled !== undefined && typeof rule.enabled !== 'boolean') {
+        errors.push(`${where}: enabled must be a boolean`);
+      }
+      if (rule?.min_score !== undefined && !isScore(rule.min_score)) {
+        errors.push(`${where}: min_score must be a number between 0 and 1`);
+      }
+      const validTokens =
+        Array.isArray(rule?.tokens) &&
+        rule.tokens.length > 0 &&
+        rule.tokens.every(
+          (set: any) =>
+            Array.isArray(set) &&
+            set.length > 0 &&
+            set.every((token: any) => typeof token === 'string' && token.trim() !== '')
+        );
+      if (!validTokens) {
+        errors.push(`${where}: tokens must be a non-empty array of non-empty token sets`);
+      }
+    });
+  });
+
+  // Without it, calls on the default template would have no red flag rules
+  if (!templateIds.has(DEFAULT_RULE_PACK)) {
+    errors.push(`A "${DEFAULT_RULE_PACK}" pack is required`);
+  }
+
+  return {
+    valid: errors.length === 0,
+    errors,
+  };
+}
+
+let defaultRegistry: RedFlagRuleRegistry | null = null;
+
+/**
+ * Process-wide registry reading the configured rules file
+ */
+export function getRedFlagRuleRegistry(): RedFlagRuleRegistry {
+  if (!defaultRegistry) {
+    defaultRegistry = new RedFlagRuleRegistry();
+  }
+  return defaultRegistry;
+}
+
+/**
+ * Accepts either the schema file (rules under "data") or a bare rule set
+ */
+function parseRuleSet(raw: any): RedFlagRuleSet {
+  const data = raw && typeof raw === 'object' && 'data' in raw ? raw.data : raw;
+  const validation = validateRuleSet(data);
+  if (!validation.valid) {
+    throw new Error(`Invalid red flag rules: ${validation.errors.join(', ')}`);
+  }
+
+  return data as RedFlagRuleSet;
+}
+
+function isScore(value: any): boolean {
+  return typeof value === 'number' && value > 0 && value <= 1;
+}
+
+function resolveRulesPath(): string {
+  return (
+    process.env.RED_FLAG_RULES_PATH ||
+    path.join(process.cwd(), 'shared', 'schemas', 'red_flags.json')
+  );
+}
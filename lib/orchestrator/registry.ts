@@ -0,0 +1,80 @@
+import type { ChildProcess } from 'child_process';
+import { HandoffPriority } from '../types';
+import { EventBus, IpcEventBus, createEventBus } from './event-bus';
+import { Orchestrator, OrchestratorOptions } from './index';
+
+/**
+ * Orchestrator Registry
+ * One orchestrator per process, shared by every API route and the
+ * WebSocket handler. Kept on globalThis because Next.js may load each
+ * route module (and re-load them on hot reload) separately.
+ */
+const globalForOrchestrator = globalThis as unknown as {
+  __orchestrator?: Orchestrator;
+  __eventBus?: EventBus;
+};
+
+export function getOrchestrator(): Orchestrator {
+  if (!globalForOrchestrator.__orchestrator) {
+    globalForOrchestrator.__orchestrator = new Orchestrator({ ...optionsFromEnv(), bus: getEventBus() });
+  }
+  return globalForOrchestrator.__orchestrator;
+}
+
+/**
+ * The event bus the process-wide orchestrator publishes on (EVENT_BUS)
+ */
+export function getEventBus(): EventBus {
+  if (!globalForOrchestrator.__eventBus) {
+    globalForOrchestrator.__eventBus = createEventBus();
+  }
+  return globalForOrchestrator.__eventBus;
+}
+
+/**
+ * Relay the orchestrator's events to and from a forked process.
+ * Returns false unless EVENT_BUS=ipc.
+ */
+export function attachEventProcess(child: ChildProcess): boolean {
+  const bus = getEventBus();
+  if (!(bus instanceof IpcEventBus)) {
+    return false;
+  }
+
+  bus.attach(child);
+  return true;
+}
+
+/**
+ * Tuning options set in the environment; unset ones keep their defaults
+ */
+function optionsFromEnv(): OrchestratorOptions {
+  const handoffSlaMs: Partial<Record<HandoffPriority, number>> = {};
+  for (const priority of ['urgent', 'high', 'normal'] as HandoffPriority[]) {
+    const slaMs = numberFromEnv(`HANDOFF_SLA_${priority.toUpperCase()}_MS`);
+    if (slaMs !== undefined) {
+      handoffSlaMs[priority] = slaMs;
+    }
+  }
+
+  return {
+    noInputTimeoutMs: numberFromEnv('NO_INPUT_TIMEOUT_MS'),
+    handoffSlaMs,
+    verbatimTolerance: numberFromEnv('VERBATIM_TOLERANCE'),
+    maxConfirmationAttempts: numberFromEnv('MAX_CONFIRMATION_ATTEMPTS'),
+  };
+}
+
+function numberFromEnv(name: string): number | undefined {
+  const raw = process.env[name];
+  if (!raw) {
+    return undefined;
+  }
+
+  const value = Number(raw);
+  if (!Number.isFinite(value) || value < 0) {
+    console.warn(`Ignoring ${name}=${raw}: expected a non-negative number`);
+    return undefined;
+  }
+  return value;
+}
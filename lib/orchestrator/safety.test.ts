@@ -0,0 +1,35 @@
+import { TranscriptTurn } from '../types';
+import { SafetyDetector } from './safety';
+
+const turn = (text: string): TranscriptTurn => ({
+  turn_id: 'turn_1',
+  call_id: 'call_test',
+  speaker: 'patient',
+  text,
+  start_ms: 0,
+  end_ms: 500,
+  asr_confidence: 0.95,
+  is_final: true,
+});
+
+const suicidalIdeation = (text: string) =>
+  new SafetyDetector().detectRedFlags([turn(text)]).find((flag) => flag.rule_id === 'suicidal_ideation');
+
+describe('suicidal ideation', () => {
+  it.each([
+    "I don't want to live far from the clinic",
+    "I don't want to live with my parents again",
+    'I do not want to live alone after the surgery',
+  ])('does not escalate %p', (text) => {
+    expect(suicidalIdeation(text)?.assertion.status).not.toBe('affirmed');
+  });
+
+  it.each([
+    "I don't want to live",
+    "I just don't want to live anymore.",
+    "Honestly I don't want to live like this",
+    "I don't want to live, I have a headache",
+  ])('escalates %p', (text) => {
+    expect(suicidalIdeation(text)?.assertion.status).toBe('affirmed');
+  });
+});
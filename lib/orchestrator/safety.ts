@@ -1,4 +1,17 @@
-import { RedFlagRule, TranscriptTurn } from '../types';
+import { RedFlagAssertion, RedFlagDetection, RedFlagRule, TranscriptTurn } from '../types';
+import { RedFlagRuleRegistry, getRedFlagRuleRegistry } from './red-flag-rules';
+import { AssertionContext, assessMention } from './assertion';
+import { matchPhrases } from './fuzzy-match';
+
+export interface DetectionContext extends AssertionContext {
+  templateId?: string; // Selects the template's red flag rule pack
+}
+
+interface TokenMention {
+  turn_id: string;
+  score: number;
+  assertion: RedFlagAssertion;
+}
 
 /**
  * Safety Red-Flag Detector
@@ -6,118 +19,35 @@ import { RedFlagRule, TranscriptTurn } from '../types';
  * that require immediate handoff to human staff
  */
 export class SafetyDetector {
-  private rules: RedFlagRule[];
-
-  constructor() {
-    this.rules = [
-      // Chest pain + shortness of breath (cardiac emergency)
-      {
-        tokens: [
-          ['chest pain', 'shortness of breath'],
-          ['chest pain', 'can\'t breathe'],
-          ['chest pain', 'difficulty breathing'],
-        ],
-        reason: 'Potential cardiac emergency: chest pain with respiratory distress',
-        priority: 'urgent',
-      },
-      // Stroke signs
-      {
-        tokens: [
-          ['face droop', 'slurred speech'],
-          ['facial droop', 'speech slurred'],
-          ['face drooping', 'can\'t speak'],
-          ['arm weakness', 'face droop'],
-        ],
-        reason: 'Potential stroke: FAST symptoms detected',
-        priority: 'urgent',
-      },
-      // Suicidal ideation
-      {
-        tokens: [
-          ['want to kill myself'],
-          ['suicide'],
-          ['suicidal'],
-          ['end my life'],
-          ['don\'t want to live'],
-        ],
-        reason: 'Suicidal ideation detected',
-        priority: 'urgent',
-      },
-      // Severe allergic reaction
-      {
-        tokens: [
-          ['throat swelling', 'can\'t breathe'],
-          ['allergic reaction', 'throat closing'],
-          ['anaphylaxis'],
-          ['epipen', 'can\'t breathe'],
-        ],
-        reason: 'Potential anaphylaxis: severe allergic reaction',
-        priority: 'urgent',
-      },
-      // Severe bleeding
-      {
-        tokens: [
-          ['bleeding', 'won\'t stop'],
-          ['heavy bleeding'],
-          ['blood', 'can\'t stop'],
-        ],
-        reason: 'Severe bleeding reported',
-        priority: 'urgent',
-      },
-      // Loss of consciousness
-      {
-        tokens: [
-          ['passed out'],
-          ['lost consciousness'],
-          ['fainted'],
-          ['blacked out'],
-        ],
-        reason: 'Loss of consciousness reported',
-        priority: 'high',
-      },
-      // Severe pain
-      {
-        tokens: [
-          ['worst pain', 'ever'],
-          ['10 out of 10 pain'],
-          ['unbearable pain'],
-        ],
-        reason: 'Severe pain reported',
-        priority: 'high',
-      },
-    ];
+  private rulePacks: RedFlagRuleRegistry;
+  private customRules: RedFlagRule[] = [];
+
+  constructor(rulePacks: RedFlagRuleRegistry = getRedFlagRuleRegistry()) {
+    this.rulePacks = rulePacks;
   }
 
   /**
-   * Check if transcript contains any red flag patterns
+   * Check if transcript contains any red flag patterns.
+   * Every detection carries an assertion status; only 'affirmed' flags
+   * (current, not negated, experienced by the patient) should escalate.
    */
-  detectRedFlags(turns: TranscriptTurn[]): Array<{
-    reason: string;
-    priority: 'urgent' | 'high' | 'normal';
-    evidence: string[];
-  }> {
-    const flags: Array<{
-      reason: string;
-      priority: 'urgent' | 'high' | 'normal';
-      evidence: string[];
-    }> = [];
-
-    // Combine all patient turns into a single text
-    const patientText = turns
-      .filter((t) => t.speaker === 'patient')
-      .map((t) => t.text)
-      .join(' ')
-      .toLowerCase();
+  detectRedFlags(turns: TranscriptTurn[], context: DetectionContext = {}): RedFlagDetection[] {
+    return this.detectWithRules(turns, this.getRules(context.templateId), context);
+  }
+
+  private detectWithRules(
+    turns: TranscriptTurn[],
+    rules: RedFlagRule[],
+    context: DetectionContext
+  ): RedFlagDetection[] {
+    const flags: RedFlagDetection[] = [];
+    const patientTurns = turns.filter((t) => t.speaker === 'patient');
 
     // Check each rule
-    for (const rule of this.rules) {
-      const matches = this.checkRule(patientText, rule);
-      if (matches.length > 0) {
-        flags.push({
-          reason: rule.reason,
-          priority: rule.priority,
-          evidence: matches,
-        });
+    for (const rule of rules) {
+      const detection = this.checkRule(patientTurns, rule, context);
+      if (detection) {
+        flags.push(detection);
       }
     }
 
@@ -125,24 +55,94 @@ export class SafetyDetector {
   }
 
   /**
-   * Check a single red flag rule against text
+   * Check a single red flag rule against patient turns.
+   * Tokens of a set may be spread over several turns; an affirmed match
+   * of any token set wins over non-affirmed ones. A set scores as its
+   * weakest token match, and only matches at or above the rule's
+   * threshold count.
    */
-  private checkRule(text: string, rule: RedFlagRule): string[] {
-    const matches: string[] = [];
+  private checkRule(
+    turns: TranscriptTurn[],
+    rule: RedFlagRule,
+    context: DetectionContext
+  ): RedFlagDetection | null {
+    const threshold = this.rulePacks.getMatchThreshold(rule);
+    const affirmed: string[] = [];
+    const affirmedTurnIds = new Set<string>();
+    let affirmedScore = 0;
+    let fallback: RedFlagDetection | null = null;
 
     for (const tokenSet of rule.tokens) {
+      const mentions = tokenSet.map((token) => this.findMentions(turns, token, threshold, context));
+
       // Check if all tokens in the set appear in the text
-      const allPresent = tokenSet.every((token) => {
-        const regex = new RegExp(`\\b${this.escapeRegex(token)}\\b`, 'i');
-        return regex.test(text);
-      });
+      if (mentions.some((m) => m.length === 0)) {
+        continue;
+      }
+
+      const affirmedMentions = mentions.map((m) => bestMention(m, true));
+      if (affirmedMentions.every(Boolean)) {
+        affirmed.push(tokenSet.join(' + '));
+        affirmedMentions.forEach((m) => affirmedTurnIds.add(m!.turn_id));
+        affirmedScore = Math.max(affirmedScore, Math.min(...affirmedMentions.map((m) => m!.score)));
+        continue;
+      }
+
+      // Report why the set did not count: the first token with no affirmed mention
+      if (!fallback) {
+        const best = mentions.map((m) => bestMention(m, false)!);
+        const blocking = best[affirmedMentions.findIndex((m) => !m)];
+        fallback = {
+          rule_id: rule.id,
+          reason: rule.reason,
+          priority: rule.priority,
+          evidence: [tokenSet.join(' + ')],
+          evidence_turn_ids: Array.from(new Set(best.map((m) => m.turn_id))),
+          assertion: blocking.assertion,
+          score: Math.min(...best.map((m) => m.score)),
+        };
+      }
+    }
+
+    if (affirmed.length > 0) {
+      return {
+        rule_id: rule.id,
+        reason: rule.reason,
+        priority: rule.priority,
+        evidence: affirmed,
+        evidence_turn_ids: Array.from(affirmedTurnIds),
+        assertion: { status: 'affirmed', negated: false, experiencer: 'patient', temporality: 'current' },
+        score: affirmedScore,
+      };
+    }
 
-      if (allPresent) {
-        matches.push(tokenSet.join(' + '));
+    return fallback;
+  }
+
+  /**
+   * Find every fuzzy mention of a token (or its synonyms) in the turns,
+   * with its match score and assertion
+   */
+  private findMentions(
+    turns: TranscriptTurn[],
+    token: string,
+    threshold: number,
+    context: DetectionContext
+  ): TokenMention[] {
+    const variants = this.rulePacks.getVariants(token);
+    const mentions: TokenMention[] = [];
+
+    for (const turn of turns) {
+      for (const match of matchPhrases(turn.text, variants, threshold)) {
+        mentions.push({
+          turn_id: turn.turn_id,
+          score: match.score,
+          assertion: assessMention(turn.text, match.offset, match.length, context),
+        });
       }
     }
 
-    return matches;
+    return mentions;
   }
 
   /**
@@ -150,15 +150,35 @@ export class SafetyDetector {
    */
   checkRecentTurns(
     turns: TranscriptTurn[],
-    windowSize: number = 5
-  ): Array<{
-    reason: string;
-    priority: 'urgent' | 'high' | 'normal';
-    evidence: string[];
-  }> {
-    // Only check the last N turns
-    const recentTurns = turns.slice(-windowSize);
-    return this.detectRedFlags(recentTurns);
+    windowSize: number = 5,
+    context: DetectionContext = {}
+  ): RedFlagDetection[] {
+    // Only check the last N final patient turns; interim text may since have been revised
+    const recentTurns = turns
+      .filter((t) => t.speaker === 'patient' && t.is_final !== false)
+      .slice(-windowSize);
+    return this.detectRedFlags(recentTurns, context);
+  }
+
+  /**
+   * Check an interim turn against urgent rules only, together with the
+   * recent final turns it may complete. Used to flag emergencies before
+   * ASR endpointing; results must be confirmed on the final turn.
+   */
+  checkInterimTurn(
+    turns: TranscriptTurn[],
+    interim: TranscriptTurn,
+    windowSize: number = 5,
+    context: DetectionContext = {}
+  ): RedFlagDetection[] {
+    const recentTurns = [
+      ...turns
+        .filter((t) => t.speaker === 'patient' && t.is_final !== false)
+        .slice(-(windowSize - 1)),
+      interim,
+    ];
+    const urgentRules = this.getRules(context.templateId).filter((rule) => rule.priority === 'urgent');
+    return this.detectWithRules(recentTurns, urgentRules, context);
   }
 
   /**
@@ -178,24 +198,27 @@ export class SafetyDetector {
     return { needsClarification: false };
   }
 
-  /**
-   * Escape special regex characters
-   */
-  private escapeRegex(str: string): string {
-    return str.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
-  }
-
   /**
    * Add custom rule at runtime
    */
   addRule(rule: RedFlagRule): void {
-    this.rules.push(rule);
+    this.customRules.push(rule);
   }
 
   /**
-   * Get all rules
+   * Get all rules in effect for a template (rule packs plus runtime rules)
    */
-  getRules(): RedFlagRule[] {
-    return this.rules;
+  getRules(templateId?: string): RedFlagRule[] {
+    return [...this.rulePacks.getRules(templateId), ...this.customRules];
   }
 }
+
+/**
+ * Highest-scoring mention, optionally only among affirmed ones
+ */
+function bestMention(mentions: TokenMention[], affirmedOnly: boolean): TokenMention | undefined {
+  // On a tie the latest mention wins, so evidence points at what was said most recently
+  return mentions
+    .filter((m) => !affirmedOnly || m.assertion.status === 'affirmed')
+    .reduce<TokenMention | undefined>((best, m) => (!best || m.score >= best.score ? m : best), undefined);
+}
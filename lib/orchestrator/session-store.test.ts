@@ -0,0 +1,62 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { FileSessionStore, InMemorySessionStore } from './session-store';
+import { SlotEngine } from './slot-engine';
+
+describe('FileSessionStore', () => {
+  const directories: string[] = [];
+
+  function tempStore(): { store: FileSessionStore; directory: string } {
+    const directory = fs.mkdtempSync(path.join(os.tmpdir(), 'sessions-'));
+    directories.push(directory);
+    return { store: new FileSessionStore(directory), directory };
+  }
+
+  afterEach(() => {
+    for (const directory of directories.splice(0)) {
+      fs.rmSync(directory, { recursive: true, force: true });
+    }
+  });
+
+  it('keeps sessions and snapshot history across store instances', () => {
+    const { store, directory } = tempStore();
+    const state = new SlotEngine().initializeState('call_1');
+    store.saveSession(state);
+    store.saveSnapshot('call_1', { ...state.snapshot, version: 1 });
+    store.appendSnapshotVersion('call_1', {
+      version: 1,
+      saved_at: state.snapshot.timestamp,
+      changes: [],
+      snapshot: state.snapshot,
+    });
+
+    const reopened = new FileSessionStore(directory);
+    expect(reopened.getSession('call_1')?.call_id).toBe('call_1');
+    expect(reopened.getSnapshot('call_1')?.version).toBe(1);
+    expect(reopened.getSnapshotHistory('call_1')).toHaveLength(1);
+  });
+
+  it('removes the session and its history on delete', () => {
+    const { store } = tempStore();
+    const state = new SlotEngine().initializeState('call_1');
+    store.saveSession(state);
+    store.appendSnapshotVersion('call_1', { version: 1, saved_at: '', changes: [] });
+
+    store.deleteSession('call_1');
+
+    expect(store.getSession('call_1')).toBeUndefined();
+    expect(store.getSnapshotHistory('call_1')).toEqual([]);
+  });
+});
+
+describe('InMemorySessionStore', () => {
+  it('stores a copy of the snapshot', () => {
+    const store = new InMemorySessionStore();
+    const snapshot = new SlotEngine().initializeState('call_1').snapshot;
+    store.saveSnapshot('call_1', snapshot);
+    snapshot.completed = true;
+
+    expect(store.getSnapshot('call_1')?.completed).toBe(false);
+  });
+});
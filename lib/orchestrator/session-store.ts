@@ -0,0 +1,194 @@
+import fs from 'fs';
+import path from 'path';
+import { IntakeSnapshot, SlotEngineState, SnapshotVersion } from '../types';
+
+/**
+ * Session Store
+ * Persistence boundary for orchestrator call state (slot engine state,
+ * transcript turns, the latest IntakeSnapshot and its version history).
+ */
+export interface SessionStore {
+  getSession(callId: string): SlotEngineState | undefined;
+  saveSession(state: SlotEngineState): void;
+  getSnapshot(callId: string): IntakeSnapshot | undefined;
+  saveSnapshot(callId: string, snapshot: IntakeSnapshot): void;
+  getSnapshotHistory(callId: string): SnapshotVersion[];
+  appendSnapshotVersion(callId: string, entry: SnapshotVersion): void;
+  listSessions(): SlotEngineState[];
+  deleteSession(callId: string): void;
+}
+
+/**
+ * In-memory session store
+ * State is lost when the process exits. Used by default in development.
+ */
+export class InMemorySessionStore implements SessionStore {
+  private sessions: Map<string, SlotEngineState> = new Map();
+  private snapshots: Map<string, IntakeSnapshot> = new Map();
+  private history: Map<string, SnapshotVersion[]> = new Map();
+
+  getSession(callId: string): SlotEngineState | undefined {
+    return this.sessions.get(callId);
+  }
+
+  saveSession(state: SlotEngineState): void {
+    this.sessions.set(state.call_id, state);
+  }
+
+  getSnapshot(callId: string): IntakeSnapshot | undefined {
+    return this.snapshots.get(callId);
+  }
+
+  saveSnapshot(callId: string, snapshot: IntakeSnapshot): void {
+    // A copy, so the next version can be diffed against it
+    this.snapshots.set(callId, JSON.parse(JSON.stringify(snapshot)));
+  }
+
+  getSnapshotHistory(callId: string): SnapshotVersion[] {
+    return this.history.get(callId) || [];
+  }
+
+  appendSnapshotVersion(callId: string, entry: SnapshotVersion): void {
+    const history = this.history.get(callId) || [];
+    history.push(entry);
+    this.history.set(callId, history);
+  }
+
+  listSessions(): SlotEngineState[] {
+    return Array.from(this.sessions.values());
+  }
+
+  deleteSession(callId: string): void {
+    this.sessions.delete(callId);
+    this.snapshots.delete(callId);
+    this.history.delete(callId);
+  }
+}
+
+/**
+ * File-backed session store
+ * Writes one JSON document per call so a call survives a restart or redeploy.
+ * Writes go to a temp file first and are renamed into place. Snapshot
+ * history is appended to a separate JSON Lines file, one version per line.
+ */
+export class FileSessionStore implements SessionStore {
+  private directory: string;
+
+  constructor(directory: string) {
+    this.directory = directory;
+    fs.mkdirSync(this.directory, { recursive: true });
+  }
+
+  getSession(callId: string): SlotEngineState | undefined {
+    return this.read(callId)?.state;
+  }
+
+  saveSession(state: SlotEngineState): void {
+    const record = this.read(state.call_id) || {};
+    this.write(state.call_id, { ...record, state });
+  }
+
+  getSnapshot(callId: string): IntakeSnapshot | undefined {
+    return this.read(callId)?.snapshot;
+  }
+
+  saveSnapshot(callId: string, snapshot: IntakeSnapshot): void {
+    const record = this.read(callId) || {};
+    this.write(callId, { ...record, snapshot });
+  }
+
+  getSnapshotHistory(callId: string): SnapshotVersion[] {
+    const file = this.historyPath(callId);
+    if (!fs.existsSync(file)) {
+      return [];
+    }
+
+    return fs
+      .readFileSync(file, 'utf-8')
+      .split('\n')
+      .filter(Boolean)
+      .map((line) => JSON.parse(line));
+  }
+
+  appendSnapshotVersion(callId: string, entry: SnapshotVersion): void {
+    fs.appendFileSync(this.historyPath(callId), `${JSON.stringify(entry)}\n`);
+  }
+
+  listSessions(): SlotEngineState[] {
+    const sessions: SlotEngineState[] = [];
+
+    for (const file of fs.readdirSync(this.directory)) {
+      if (!file.endsWith('.json')) continue;
+      const record = this.readFile(path.join(this.directory, file));
+      if (record?.state) {
+        sessions.push(record.state);
+      }
+    }
+
+    return sessions;
+  }
+
+  deleteSession(callId: string): void {
+    for (const file of [this.filePath(callId), this.historyPath(callId)]) {
+      if (fs.existsSync(file)) {
+        fs.unlinkSync(file);
+      }
+    }
+  }
+
+  private read(callId: string): StoredSessionRecord | undefined {
+    return this.readFile(this.filePath(callId));
+  }
+
+  private readFile(file: string): StoredSessionRecord | undefined {
+    if (!fs.existsSync(file)) {
+      return undefined;
+    }
+
+    try {
+      return JSON.parse(fs.readFileSync(file, 'utf-8'));
+    } catch (error) {
+      console.error(`Failed to read session file ${file}:`, error);
+      return undefined;
+    }
+  }
+
+  private write(callId: string, record: StoredSessionRecord): void {
+    const file = this.filePath(callId);
+    const tmpFile = `${file}.${process.pid}.tmp`;
+    fs.writeFileSync(tmpFile, JSON.stringify(record));
+    fs.renameSync(tmpFile, file);
+  }
+
+  private filePath(callId: string): string {
+    return path.join(this.directory, `${safeFileName(callId)}.json`);
+  }
+
+  private historyPath(callId: string): string {
+    return path.join(this.directory, `${safeFileName(callId)}.history.jsonl`);
+  }
+}
+
+interface StoredSessionRecord {
+  state?: SlotEngineState;
+  snapshot?: IntakeSnapshot;
+}
+
+// Call ids come from Twilio/clients, so keep them filesystem-safe
+function safeFileName(callId: string): string {
+  return callId.replace(/[^A-Za-z0-9_.-]/g, '_');
+}
+
+/**
+ * Create the session store configured by SESSION_STORE ('memory' | 'file')
+ */
+export function createSessionStore(): SessionStore {
+  const kind = process.env.SESSION_STORE || 'memory';
+
+  if (kind === 'file') {
+    const directory = process.env.SESSION_STORE_DIR || path.join(process.cwd(), '.data', 'sessions');
+    return new FileSessionStore(directory);
+  }
+
+  return new InMemorySessionStore();
+}
@@ -1,11 +1,32 @@
 import {
   IntakeSnapshot,
   IntakeQuestion,
+  IntakeTemplate,
   SlotEngineState,
   TranscriptTurn,
   SlotAnswer,
+  SlotRevision,
 } from '../types';
-import intakeQuestionsData from '../../shared/schemas/intake.questions.json';
+import {
+  FLOW_SKIP_REASONS,
+  FlowSkipReason,
+  decideQuestion,
+  getParents,
+  orderQuestions,
+} from './question-flow';
+import { DEFAULT_TEMPLATE_ID, TemplateRegistry, getTemplateRegistry } from './templates';
+import { normalizeSlotValue } from './normalizers';
+import { createRevision } from './corrections';
+
+// Minimum extraction confidence for a slot to count as filled
+const MIN_FILL_CONFIDENCE = 0.6;
+// Why the last answer was not accepted, told to the patient when re-asking
+const RETRY_NOTES: Record<string, string> = {
+  future_date: 'the date of birth given is in the future',
+  implausible_date: 'the year of birth given is not plausible',
+};
+// Times a question is asked before it is given up, unless the question sets max_attempts
+export const DEFAULT_MAX_QUESTION_ATTEMPTS = 3;
 
 /**
  * Slot Engine
@@ -13,31 +34,44 @@ import intakeQuestionsData from '../../shared/schemas/intake.questions.json';
  * and determines next question to ask.
  */
 export class SlotEngine {
-  private questions: IntakeQuestion[];
+  private templates: TemplateRegistry;
 
-  constructor() {
-    // Load questions from schema
-    this.questions = (intakeQuestionsData as any).data.questions;
+  constructor(templates: TemplateRegistry = getTemplateRegistry()) {
+    this.templates = templates;
   }
 
   /**
    * Initialize a new slot engine state for a call
    */
-  initializeState(callId: string): SlotEngineState {
+  initializeState(
+    callId: string,
+    templateId: string = DEFAULT_TEMPLATE_ID,
+    templateVersion?: string
+  ): SlotEngineState {
+    const template = this.getTemplate(templateId, templateVersion);
+
     const snapshot: IntakeSnapshot = {
       call_id: callId,
       answers: {},
       red_flags: [],
       completed: false,
       timestamp: new Date().toISOString(),
+      template: {
+        id: template.id,
+        version: template.version,
+      },
     };
 
     return {
       call_id: callId,
-      questions: this.questions,
+      questions: template.questions,
       current_question_index: 0,
       snapshot,
       turns: [],
+      metadata: {
+        status: 'active',
+        started_at: snapshot.timestamp,
+      },
     };
   }
 
@@ -45,12 +79,18 @@ export class SlotEngine {
    * Get the next required slot/question that needs to be asked
    */
   getNextQuestion(state: SlotEngineState): IntakeQuestion | null {
-    for (let i = 0; i < this.questions.length; i++) {
-      const question = this.questions[i];
+    this.applyFlowRules(state);
+    const parents = getParents(state.questions);
+
+    for (const question of orderQuestions(state.questions)) {
       const answer = state.snapshot.answers[question.slot];
+      if (answer && this.isResolved(answer)) {
+        continue;
+      }
 
       // If required question not filled or status is unknown, ask it
-      if (question.required && (!answer || answer.status !== 'filled')) {
+      const decision = decideQuestion(question, state.snapshot.answers, parents.get(question.id));
+      if (question.required && decision.action === 'ask') {
         return question;
       }
     }
@@ -58,17 +98,182 @@ export class SlotEngine {
     return null; // All questions answered
   }
 
+  /**
+   * Questions still open for an answer: unresolved and not skipped by the
+   * flow rules. Patients may answer these before they are asked.
+   */
+  getOpenQuestions(state: SlotEngineState): IntakeQuestion[] {
+    this.applyFlowRules(state);
+    const parents = getParents(state.questions);
+
+    return orderQuestions(state.questions).filter((question) => {
+      const answer = state.snapshot.answers[question.slot];
+      if (answer && answer.status !== 'unknown') {
+        return false;
+      }
+      return decideQuestion(question, state.snapshot.answers, parents.get(question.id)).action !== 'skip';
+    });
+  }
+
+  /**
+   * Apply skip_if / conditions / follow-up gating, marking slots that no
+   * longer apply as not_applicable (and reopening them if they apply again)
+   */
+  applyFlowRules(state: SlotEngineState): void {
+    const parents = getParents(state.questions);
+
+    for (const question of orderQuestions(state.questions)) {
+      const answer = state.snapshot.answers[question.slot];
+      const decision = decideQuestion(
+        question,
+        state.snapshot.answers,
+        parents.get(question.id)
+      );
+
+      if (decision.action === 'skip' && (!answer || answer.status === 'unknown')) {
+        state.snapshot.answers[question.slot] = {
+          confidence: 1,
+          status: 'not_applicable',
+          evidence_turn_ids: [],
+          reason: decision.reason,
+        };
+      } else if (
+        decision.action !== 'skip' &&
+        answer?.status === 'not_applicable' &&
+        FLOW_SKIP_REASONS.includes(answer.reason as FlowSkipReason)
+      ) {
+        delete state.snapshot.answers[question.slot];
+      }
+    }
+  }
+
+  /**
+   * Get the next filled slot that still needs a read-back confirmation
+   */
+  getNextConfirmation(state: SlotEngineState): IntakeQuestion | null {
+    for (const question of orderQuestions(state.questions)) {
+      const answer = state.snapshot.answers[question.slot];
+      if (question.confirm && answer?.status === 'filled') {
+        return question;
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Record the patient's answer to a read-back
+   */
+  resolveConfirmation(state: SlotEngineState, slot: string, confirmed: boolean): IntakeSnapshot {
+    const answer = state.snapshot.answers[slot];
+    if (!answer) {
+      return state.snapshot;
+    }
+
+    if (confirmed) {
+      answer.status = 'confirmed';
+    } else {
+      // Drop the rejected value so the question is asked again
+      state.snapshot.answers[slot] = withRevision(
+        answer,
+        {
+          confidence: answer.confidence,
+          status: 'unknown',
+          evidence_turn_ids: answer.evidence_turn_ids,
+          reason: 'rejected_on_readback',
+        },
+        'readback_rejected'
+      );
+      this.clearPatientField(state, slot);
+      this.countConfirmationAttempt(state, slot);
+    }
+
+    state.snapshot.timestamp = new Date().toISOString();
+    this.applyFlowRules(state);
+    state.snapshot.completed = this.checkCompletion(state);
+
+    return state.snapshot;
+  }
+
+  /**
+   * Add to (or with a negative delta, take back) a question's attempts
+   */
+  countQuestionAttempt(state: SlotEngineState, questionId: string, delta: number = 1): void {
+    state.question_attempts = state.question_attempts || {};
+    state.question_attempts[questionId] = Math.max(0, (state.question_attempts[questionId] || 0) + delta);
+  }
+
+  /**
+   * Count a read-back that did not confirm the slot; returns the total
+   */
+  countConfirmationAttempt(state: SlotEngineState, slot: string): number {
+    state.confirmation_attempts = state.confirmation_attempts || {};
+    state.confirmation_attempts[slot] = (state.confirmation_attempts[slot] || 0) + 1;
+    return state.confirmation_attempts[slot];
+  }
+
+  /**
+   * Replace an answer, keeping the one it replaces in its revision history
+   */
+  reviseSlot(
+    state: SlotEngineState,
+    slot: string,
+    value: any,
+    confidence: number,
+    evidenceTurnIds: string[],
+    changedBy: SlotRevision['changed_by'],
+    turnId?: string
+  ): IntakeSnapshot {
+    const previous = state.snapshot.answers[slot];
+    this.updateSnapshot(state, slot, value, confidence, evidenceTurnIds);
+    if (previous) {
+      state.snapshot.answers[slot] = withRevision(
+        previous,
+        state.snapshot.answers[slot],
+        changedBy,
+        turnId
+      );
+    }
+
+    return state.snapshot;
+  }
+
+  /**
+   * Record an answer without a value: the patient declined, did not know,
+   * or had nothing to report. The slot counts as resolved.
+   */
+  recordNonAnswer(state: SlotEngineState, slot: string, answer: SlotAnswer): IntakeSnapshot {
+    const previous = state.snapshot.answers[slot];
+    state.snapshot.answers[slot] = previous ? withRevision(previous, answer, 'non_answer') : answer;
+    this.clearPatientField(state, slot);
+    state.snapshot.timestamp = new Date().toISOString();
+
+    this.applyFlowRules(state);
+    state.snapshot.completed = this.checkCompletion(state);
+
+    return state.snapshot;
+  }
+
+  /**
+   * Whether a question has been asked as often as its policy allows
+   */
+  hasExhaustedAttempts(state: SlotEngineState, question: IntakeQuestion): boolean {
+    const attempts = state.question_attempts?.[question.id] || 0;
+    return attempts >= (question.max_attempts ?? DEFAULT_MAX_QUESTION_ATTEMPTS);
+  }
+
   /**
    * Build LLM prompt to ask the verbatim question
    */
   buildQuestionPrompt(question: IntakeQuestion, state: SlotEngineState): string {
     const context = this.buildContextSummary(state);
+    const retryNote = RETRY_NOTES[state.snapshot.answers[question.slot]?.reason || ''];
     
     return `You are asking the patient intake question. 
 
 Context so far:
 ${context}
-
+${retryNote ? `\nThe patient's last answer could not be used: ${retryNote}. Briefly say so before asking again.\n` : ''}
 Now ask this question VERBATIM:
 "${question.verbatim}"
 
@@ -85,42 +290,78 @@ Be warm, empathetic, and professional. If this is a sensitive question (allergie
     confidence: number,
     evidenceTurnIds: string[]
   ): IntakeSnapshot {
-    const answer: SlotAnswer = {
-      value,
-      confidence,
-      status: confidence >= 0.6 ? 'filled' : 'unknown',
-      evidence_turn_ids: evidenceTurnIds,
-    };
+    const question = state.questions.find((q) => q.slot === slot);
+    const normalized = normalizeSlotValue(question?.validation, value, slot);
+    const revisions = state.snapshot.answers[slot]?.revisions;
+
+    // Values that fail validation stay unknown so the question is re-asked
+    const answer: SlotAnswer = normalized.valid
+      ? {
+          value: normalized.value,
+          confidence,
+          status: confidence >= MIN_FILL_CONFIDENCE ? 'filled' : 'unknown',
+          evidence_turn_ids: evidenceTurnIds,
+          ...(confidence < MIN_FILL_CONFIDENCE && { reason: 'low_confidence' }),
+        }
+      : {
+          confidence,
+          status: 'unknown',
+          evidence_turn_ids: evidenceTurnIds,
+          reason: normalized.reason,
+        };
+    if (revisions) {
+      answer.revisions = revisions;
+    }
 
     state.snapshot.answers[slot] = answer;
     state.snapshot.timestamp = new Date().toISOString();
 
     // Check if patient info slots are filled
-    if (slot === 'full_name') {
-      state.snapshot.patient = state.snapshot.patient || {};
-      state.snapshot.patient.full_name = value;
-    } else if (slot === 'dob') {
-      state.snapshot.patient = state.snapshot.patient || {};
-      state.snapshot.patient.dob = value;
-    } else if (slot === 'callback_number') {
-      state.snapshot.patient = state.snapshot.patient || {};
-      state.snapshot.patient.callback_number = value;
+    if (answer.status === 'filled') {
+      if (slot === 'full_name') {
+        state.snapshot.patient = state.snapshot.patient || {};
+        state.snapshot.patient.full_name = answer.value;
+      } else if (slot === 'dob') {
+        state.snapshot.patient = state.snapshot.patient || {};
+        state.snapshot.patient.dob = answer.value;
+      } else if (slot === 'callback_number') {
+        state.snapshot.patient = state.snapshot.patient || {};
+        state.snapshot.patient.callback_number = answer.value;
+      }
     }
 
+    // Re-evaluate branching now that a slot changed
+    this.applyFlowRules(state);
+
     // Check if all required questions are answered
     state.snapshot.completed = this.checkCompletion(state);
 
     return state.snapshot;
   }
 
+  /**
+   * Drop a rejected value from the patient details it was copied into
+   */
+  private clearPatientField(state: SlotEngineState, slot: string): void {
+    const patient = state.snapshot.patient;
+    if (patient && (slot === 'full_name' || slot === 'dob' || slot === 'callback_number')) {
+      delete patient[slot];
+    }
+  }
+
   /**
    * Check if all required slots are filled
    */
   private checkCompletion(state: SlotEngineState): boolean {
-    for (const question of this.questions) {
+    for (const question of state.questions) {
       if (question.required) {
         const answer = state.snapshot.answers[question.slot];
-        if (!answer || answer.status !== 'filled') {
+        if (!answer || !this.isResolved(answer)) {
+          return false;
+        }
+
+        // Critical slots also need the patient's read-back confirmation
+        if (question.confirm && answer.status === 'filled') {
           return false;
         }
       }
@@ -128,6 +369,41 @@ Be warm, empathetic, and professional. If this is a sensitive question (allergie
     return true;
   }
 
+  /**
+   * Carry answer revisions over to an externally supplied snapshot,
+   * recording each answer it changes
+   */
+  mergeRevisions(
+    previous: IntakeSnapshot,
+    next: IntakeSnapshot,
+    changedBy: SlotRevision['changed_by']
+  ): void {
+    for (const [slot, answer] of Object.entries(next.answers)) {
+      const before = previous.answers[slot];
+      if (!before) continue;
+
+      const changed =
+        before.status !== answer.status || JSON.stringify(before.value) !== JSON.stringify(answer.value);
+      next.answers[slot] = changed
+        ? withRevision(before, answer, changedBy)
+        : { ...answer, ...(before.revisions && { revisions: before.revisions }) };
+    }
+  }
+
+  /**
+   * Whether a slot needs no further questioning
+   */
+  private isResolved(answer: SlotAnswer): boolean {
+    return (
+      answer.status === 'filled' ||
+      answer.status === 'confirmed' ||
+      answer.status === 'not_applicable' ||
+      answer.status === 'declined' ||
+      answer.status === 'unknown_to_patient' ||
+      answer.status === 'unanswered'
+    );
+  }
+
   /**
    * Add a transcript turn to the state
    */
@@ -165,7 +441,17 @@ Be warm, empathetic, and professional. If this is a sensitive question (allergie
     for (const [slot, answer] of Object.entries(snapshot.answers)) {
       if (!answer.status) {
         errors.push(`Answer for ${slot} must have status`);
-      } else if (!['filled', 'unknown', 'not_applicable'].includes(answer.status)) {
+      } else if (
+        ![
+          'filled',
+          'confirmed',
+          'unknown',
+          'not_applicable',
+          'declined',
+          'unknown_to_patient',
+          'unanswered',
+        ].includes(answer.status)
+      ) {
         errors.push(`Answer for ${slot} has invalid status: ${answer.status}`);
       }
 
@@ -191,7 +477,7 @@ Be warm, empathetic, and professional. If this is a sensitive question (allergie
     const filledSlots: string[] = [];
     
     for (const [slot, answer] of Object.entries(state.snapshot.answers)) {
-      if (answer.status === 'filled') {
+      if (answer.status === 'filled' || answer.status === 'confirmed') {
         filledSlots.push(`${slot}: ${answer.value}`);
       }
     }
@@ -204,9 +490,40 @@ Be warm, empathetic, and professional. If this is a sensitive question (allergie
   }
 
   /**
-   * Get all questions
+   * Resolve a template from the registry
+   */
+  getTemplate(templateId: string, templateVersion?: string): IntakeTemplate {
+    const template = this.templates.get(templateId, templateVersion);
+    if (!template) {
+      throw new Error(
+        `Unknown intake template: ${templateId}${templateVersion ? `@${templateVersion}` : ''}`
+      );
+    }
+    return template;
+  }
+
+  /**
+   * Get all questions of a template (default template if none given)
    */
-  getAllQuestions(): IntakeQuestion[] {
-    return this.questions;
+  getAllQuestions(templateId: string = DEFAULT_TEMPLATE_ID): IntakeQuestion[] {
+    return this.getTemplate(templateId).questions;
   }
 }
+
+/**
+ * `next` with the revision history of the answer it replaces. An unknown
+ * answer without a value is not worth recording, but its history is kept.
+ */
+function withRevision(
+  previous: SlotAnswer,
+  next: SlotAnswer,
+  changedBy: SlotRevision['changed_by'],
+  turnId?: string
+): SlotAnswer {
+  const revisions = [...(previous.revisions || [])];
+  if (previous.status !== 'unknown' || previous.value !== undefined) {
+    revisions.push(createRevision(previous, changedBy, turnId));
+  }
+
+  return revisions.length > 0 ? { ...next, revisions } : next;
+}
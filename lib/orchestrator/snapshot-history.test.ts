@@ -0,0 +1,32 @@
+import { IntakeSnapshot, SnapshotVersion } from '../types';
+import { diffSnapshots, snapshotAtVersion } from './snapshot-history';
+
+const snapshot = (fields: Record<string, unknown>): IntakeSnapshot =>
+  ({ call_id: 'call_test', timestamp: '2026-01-01T00:00:00.000Z', version: 1, ...fields }) as IntakeSnapshot;
+
+describe('snapshot history', () => {
+  it('replays changes under keys that contain a dot', () => {
+    const before = snapshot({ answers: {} });
+    const after = snapshot({ answers: { 'dr.smith': { value: 'referral' } }, version: 2 });
+
+    const changes = diffSnapshots(before, after);
+    const history: SnapshotVersion[] = [
+      { version: 1, saved_at: before.timestamp, changes: [], snapshot: before },
+      { version: 2, saved_at: after.timestamp, changes },
+    ];
+
+    expect(changes).toEqual([{ op: 'add', path: ['answers', 'dr.smith'], to: { value: 'referral' } }]);
+    expect(snapshotAtVersion(history, 2)).toEqual(after);
+  });
+
+  it('replays histories stored with dot-joined paths', () => {
+    const before = snapshot({ answers: { dob: { value: '1982-05-14' } } });
+    const legacyChange = { op: 'replace', path: 'answers.dob.value', from: '1982-05-14', to: '1982-05-15' };
+    const history = [
+      { version: 1, saved_at: before.timestamp, changes: [], snapshot: before },
+      { version: 2, saved_at: before.timestamp, changes: [legacyChange] },
+    ] as unknown as SnapshotVersion[];
+
+    expect(snapshotAtVersion(history, 2)!.answers).toEqual({ dob: { value: '1982-05-15' } });
+  });
+});
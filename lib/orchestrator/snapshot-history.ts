@@ -0,0 +1,123 @@
+import { IntakeSnapshot, SnapshotChange, SnapshotVersion } from '../types';
+
+/**
+ * Snapshot History
+ * Structured diffs between IntakeSnapshot versions. Objects are compared
+ * key by key; arrays and other values are compared as a whole. Paths are
+ * arrays of keys, so keys that contain a dot replay intact. History
+ * keeps the first version in full and only the changes of later ones,
+ * which are replayed to rebuild any version.
+ */
+
+// Set from the history entry itself, so never part of a diff
+const IGNORED_FIELDS = new Set(['version']);
+
+/**
+ * A snapshot write based on an older version than the one stored
+ */
+export class StaleSnapshotError extends Error {
+  constructor(
+    public expectedVersion: number,
+    public currentVersion: number
+  ) {
+    super(`Stale snapshot: based on version ${expectedVersion}, current version is ${currentVersion}`);
+    this.name = 'StaleSnapshotError';
+  }
+}
+
+/**
+ * Changes that turn `before` into `after`; values are copies
+ */
+export function diffSnapshots(before: IntakeSnapshot, after: IntakeSnapshot): SnapshotChange[] {
+  const changes: SnapshotChange[] = [];
+  diffObjects(withoutIgnored(before), withoutIgnored(after), [], changes);
+  return changes;
+}
+
+/**
+ * Whether a diff changes anything besides the snapshot timestamp
+ */
+export function hasContentChanges(changes: SnapshotChange[]): boolean {
+  return changes.some((change) => change.path.join('.') !== 'timestamp');
+}
+
+/**
+ * Rebuild a call's snapshot as it was at `version`
+ */
+export function snapshotAtVersion(
+  history: SnapshotVersion[],
+  version: number
+): IntakeSnapshot | undefined {
+  const base = history[0]?.snapshot;
+  if (!base || !history.some((entry) => entry.version === version)) {
+    return undefined;
+  }
+
+  const snapshot: IntakeSnapshot = clone(base);
+  for (const entry of history.slice(1)) {
+    if (entry.version > version) break;
+    applyChanges(snapshot, entry.changes);
+  }
+  snapshot.version = version;
+
+  return snapshot;
+}
+
+function applyChanges(target: Record<string, any>, changes: SnapshotChange[]): void {
+  for (const change of changes) {
+    // Histories stored before paths were arrays hold dot-joined strings
+    const keys = Array.isArray(change.path) ? [...change.path] : String(change.path).split('.');
+    const last = keys.pop()!;
+    let parent = target;
+    for (const key of keys) {
+      parent[key] = isPlainObject(parent[key]) ? parent[key] : {};
+      parent = parent[key];
+    }
+
+    if (change.op === 'remove') {
+      delete parent[last];
+    } else {
+      parent[last] = clone(change.to);
+    }
+  }
+}
+
+function withoutIgnored(snapshot: IntakeSnapshot): Record<string, any> {
+  return Object.fromEntries(
+    Object.entries(snapshot).filter(([key]) => !IGNORED_FIELDS.has(key))
+  );
+}
+
+function diffObjects(
+  before: Record<string, any>,
+  after: Record<string, any>,
+  prefix: string[],
+  changes: SnapshotChange[]
+): void {
+  const keys = new Set([...Object.keys(before), ...Object.keys(after)]);
+
+  for (const key of keys) {
+    const path = [...prefix, key];
+    const from = before[key];
+    const to = after[key];
+
+    if (from === undefined && to === undefined) continue;
+    if (from === undefined) {
+      changes.push({ op: 'add', path, to: clone(to) });
+    } else if (to === undefined) {
+      changes.push({ op: 'remove', path, from: clone(from) });
+    } else if (isPlainObject(from) && isPlainObject(to)) {
+      diffObjects(from, to, path, changes);
+    } else if (JSON.stringify(from) !== JSON.stringify(to)) {
+      changes.push({ op: 'replace', path, from: clone(from), to: clone(to) });
+    }
+  }
+}
+
+function isPlainObject(value: unknown): value is Record<string, any> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function clone<T>(value: T): T {
+  return value === undefined ? value : JSON.parse(JSON.stringify(value));
+}
@@ -0,0 +1,118 @@
+import { IntakeTemplate } from '../types';
+import { validateQuestionFlow } from './question-flow';
+import intakeQuestionsData from '../../shared/schemas/intake.questions.json';
+import urgentCareTemplate from '../../shared/templates/urgent-care.json';
+import pediatricsTemplate from '../../shared/templates/pediatrics.json';
+import behavioralHealthTemplate from '../../shared/templates/behavioral-health.json';
+import preOpTemplate from '../../shared/templates/pre-op.json';
+
+export const DEFAULT_TEMPLATE_ID = 'default';
+
+/**
+ * Template Registry
+ * Intake question sets keyed by template id and version. Templates are
+ * validated on registration so a broken question flow never reaches a call.
+ */
+export class TemplateRegistry {
+  private templates: Map<string, IntakeTemplate[]> = new Map();
+
+  /**
+   * Register a template version
+   */
+  register(template: IntakeTemplate): void {
+    if (!template.id || !template.version) {
+      throw new Error('Template id and version are required');
+    }
+
+    const validation = validateQuestionFlow(template.questions);
+    if (!validation.valid) {
+      throw new Error(
+        `Invalid intake template ${template.id}@${template.version}: ${validation.errors.join(', ')}`
+      );
+    }
+
+    const versions = this.templates.get(template.id) || [];
+    if (versions.some((t) => t.version === template.version)) {
+      throw new Error(`Template already registered: ${template.id}@${template.version}`);
+    }
+
+    versions.push(template);
+    versions.sort((a, b) => compareVersions(a.version, b.version));
+    this.templates.set(template.id, versions);
+  }
+
+  /**
+   * Get a template by id; latest version unless a version is given
+   */
+  get(id: string, version?: string): IntakeTemplate | undefined {
+    const versions = this.templates.get(id);
+    if (!versions || versions.length === 0) {
+      return undefined;
+    }
+
+    if (version) {
+      return versions.find((t) => t.version === version);
+    }
+
+    return versions[versions.length - 1];
+  }
+
+  /**
+   * List the latest version of every template
+   */
+  list(): IntakeTemplate[] {
+    return Array.from(this.templates.values()).map((versions) => versions[versions.length - 1]);
+  }
+
+  /**
+   * List all registered versions of a template
+   */
+  listVersions(id: string): string[] {
+    return (this.templates.get(id) || []).map((t) => t.version);
+  }
+}
+
+let defaultRegistry: TemplateRegistry | null = null;
+
+/**
+ * Registry preloaded with the bundled templates
+ */
+export function getTemplateRegistry(): TemplateRegistry {
+  if (!defaultRegistry) {
+    defaultRegistry = new TemplateRegistry();
+
+    const defaultQuestions = (intakeQuestionsData as any).data;
+    defaultRegistry.register({
+      id: DEFAULT_TEMPLATE_ID,
+      version: defaultQuestions.version,
+      name: 'General Intake',
+      questions: defaultQuestions.questions,
+    });
+
+    for (const template of [
+      urgentCareTemplate,
+      pediatricsTemplate,
+      behavioralHealthTemplate,
+      preOpTemplate,
+    ]) {
+      defaultRegistry.register(template as IntakeTemplate);
+    }
+  }
+
+  return defaultRegistry;
+}
+
+/**
+ * Compare dotted numeric versions ("1.10.0" > "1.9.2")
+ */
+function compareVersions(a: string, b: string): number {
+  const partsA = a.split('.').map((n) => parseInt(n, 10) || 0);
+  const partsB = b.split('.').map((n) => parseInt(n, 10) || 0);
+
+  for (let i = 0; i < Math.max(partsA.length, partsB.length); i++) {
+    const diff = (partsA[i] || 0) - (partsB[i] || 0);
+    if (diff !== 0) return diff;
+  }
+
+  return 0;
+}
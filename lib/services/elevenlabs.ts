@@ -1,5 +1,9 @@
 import { ElevenLabsClient } from '@elevenlabs/elevenlabs-js';
 import { Readable } from 'stream';
+import { redactSpeech } from '../orchestrator/enrichment';
+
+// TTS audio is requested as 16-bit little-endian mono PCM at this rate
+export const TTS_SAMPLE_RATE = 16000;
 
 export class ElevenLabsService {
   private client: ElevenLabsClient | null = null;
@@ -23,7 +27,7 @@ export class ElevenLabsService {
   }
 
   /**
-   * Convert text to speech and return audio stream
+   * Convert text to speech and return PCM audio (see TTS_SAMPLE_RATE)
    */
   async textToSpeech(text: string): Promise<Buffer> {
     if (this.isDeveloperMode) {
@@ -38,6 +42,7 @@ export class ElevenLabsService {
       const audioStream = await this.client.textToSpeech.convert(this.voiceId, {
         text,
         modelId: 'eleven_turbo_v2',
+        outputFormat: 'pcm_16000',
       });
 
       // Convert stream to buffer
@@ -60,10 +65,10 @@ export class ElevenLabsService {
    * Mock TTS for developer mode
    */
   private async textToSpeechMock(text: string): Promise<Buffer> {
-    console.log(`[ElevenLabs Mock] TTS request: "${text.substring(0, 50)}..."`);
+    console.log(`[ElevenLabs Mock] TTS request: "${redactSpeech(text).substring(0, 50)}..."`);
     
     // Return empty audio buffer (in real scenario, could return silent audio)
-    const sampleRate = 16000;
+    const sampleRate = TTS_SAMPLE_RATE;
     const duration = Math.max(text.length * 0.05, 1); // ~50ms per character
     const samples = Math.floor(sampleRate * duration);
     const buffer = Buffer.alloc(samples * 2); // 16-bit samples
@@ -101,6 +106,7 @@ export class ElevenLabsService {
       const audioStream = await this.client.textToSpeech.convert(this.voiceId, {
         text,
         modelId: 'eleven_turbo_v2',
+        outputFormat: 'pcm_16000',
       });
 
       if (audioStream instanceof Readable) {
@@ -6,6 +6,7 @@ import {
   LLMFunctionCall,
   TranscriptTurn,
 } from '../types';
+import { extractValue } from '../orchestrator/extractor';
 
 /**
  * Enhanced GPT Service for Orchestrator
@@ -14,9 +15,11 @@ import {
 export class OrchestratorGPT {
   private client: OpenAI;
   private model: string;
+  private mockMode: boolean;
 
   constructor() {
     const apiKey = process.env.OPENAI_API_KEY;
+    this.mockMode = !apiKey;
     if (!apiKey) {
       console.warn('OPENAI_API_KEY not set - using mock mode');
     }
@@ -73,7 +76,15 @@ Use short, plain language. Return structured JSON only using the provided functi
                         confidence: { type: 'number', minimum: 0, maximum: 1 },
                         status: {
                           type: 'string',
-                          enum: ['filled', 'unknown', 'not_applicable'],
+                          enum: [
+                            'filled',
+                            'confirmed',
+                            'unknown',
+                            'not_applicable',
+                            'declined',
+                            'unknown_to_patient',
+                            'unanswered',
+                          ],
                         },
                         evidence_turn_ids: {
                           type: 'array',
@@ -144,16 +155,22 @@ Use short, plain language. Return structured JSON only using the provided functi
   }
 
   /**
-   * Call LLM to ask next question or process patient response
+   * Call LLM to ask next question or process patient response.
+   * `feedback` corrects a previous reply, e.g. one that paraphrased the question.
    */
   async callLLM(
     state: SlotEngineState,
     nextQuestion: IntakeQuestion | null,
-    conversationHistory: Array<{ role: 'user' | 'assistant'; content: string }>
+    conversationHistory: Array<{ role: 'user' | 'assistant'; content: string }>,
+    feedback?: string
   ): Promise<{
     response: string;
     functionCalls?: LLMFunctionCall[];
   }> {
+    if (this.mockMode) {
+      return this.mockLLMResponse(nextQuestion);
+    }
+
     try {
       // Build messages
       const messages: OpenAI.Chat.ChatCompletionMessageParam[] = [
@@ -178,6 +195,13 @@ Use short, plain language. Return structured JSON only using the provided functi
         });
       }
 
+      if (feedback) {
+        messages.push({
+          role: 'system',
+          content: feedback,
+        });
+      }
+
       // Call OpenAI with function calling
       const completion = await this.client.chat.completions.create({
         model: this.model,
@@ -229,7 +253,7 @@ Use short, plain language. Return structured JSON only using the provided functi
     nextQuestion: IntakeQuestion | null
   ): string {
     const filledSlots = Object.entries(state.snapshot.answers)
-      .filter(([_, answer]) => answer.status === 'filled')
+      .filter(([_, answer]) => answer.status === 'filled' || answer.status === 'confirmed')
       .map(([slot, answer]) => `${slot}: ${answer.value}`)
       .join(', ');
 
@@ -286,16 +310,26 @@ Use short, plain language. Return structured JSON only using the provided functi
   }
 
   /**
-   * Extract slot value from patient response
+   * Extract slot value from patient response.
+   * Falls back to the rule-based extractor in mock mode or on LLM errors,
+   * and reports whether the rules agree with what the LLM extracted.
    */
   async extractSlotValue(
     slot: string,
     patientResponse: string,
-    questionContext: string
+    questionContext: string,
+    validation?: IntakeQuestion['validation']
   ): Promise<{
     value: any;
     confidence: number;
+    rules_agree?: boolean;
   }> {
+    const ruleResult = extractValue(slot, patientResponse, validation, { askedSlot: slot });
+
+    if (this.mockMode) {
+      return ruleResult || { value: patientResponse, confidence: 0.5 };
+    }
+
     try {
       const prompt = `Extract the ${slot} from this patient response: "${patientResponse}"
 Context: ${questionContext}
@@ -317,13 +351,32 @@ Return JSON: {"value": <extracted_value>, "confidence": <0-1>}`;
         throw new Error('No content in response');
       }
 
-      return JSON.parse(content);
+      const result = JSON.parse(content);
+      if (!ruleResult) {
+        return result;
+      }
+
+      const rulesAgree = sameValue(result.value, ruleResult.value);
+      if (!rulesAgree) {
+        console.warn(
+          `Extraction mismatch for ${slot}: LLM ${JSON.stringify(result.value)}, rules ${JSON.stringify(ruleResult.value)}`
+        );
+      }
+      return { ...result, rules_agree: rulesAgree };
     } catch (error) {
       console.error('Extraction error:', error);
-      return {
+      return ruleResult || {
         value: patientResponse,
         confidence: 0.5,
       };
     }
   }
 }
+
+function sameValue(a: any, b: any): boolean {
+  const normalize = (value: any): string =>
+    Array.isArray(value)
+      ? value.map((item) => String(item).trim().toLowerCase()).sort().join('|')
+      : String(value).trim().toLowerCase();
+  return normalize(a) === normalize(b);
+}
@@ -10,7 +10,16 @@ import { DeepgramService } from './deepgram';
 import { GPTService } from './gpt';
 import { ElevenLabsService } from './elevenlabs';
 import { TwinMindService } from './twinmind';
-
+import { SlotEngine } from '../orchestrator/slot-engine';
+import { toIntakeSnapshot, toRequiredQuestions } from '../orchestrator/legacy-adapter';
+import { getOrchestrator } from '../orchestrator/registry';
+
+/**
+ * @deprecated Calls run on the orchestrator pipeline (lib/orchestrator).
+ * Use getOrchestrator() and lib/orchestrator/legacy-adapter for the legacy
+ * VoiceSession / PatientIntakeSnapshot shapes. Sessions created here are
+ * mirrored into the orchestrator, which stays the source of truth.
+ */
 export class SessionManager {
   private deepgram: DeepgramService;
   private gpt: GPTService;
@@ -44,6 +53,7 @@ export class SessionManager {
 
     this.sessions.set(session.id, session);
     this.conversationHistory.set(session.id, []);
+    getOrchestrator().initializeSession(session.id, { callSid, phoneNumber });
     
     return session;
   }
@@ -180,11 +190,29 @@ export class SessionManager {
       session.snapshot.rawTranscript = fullTranscript;
       session.snapshot.timestamp = new Date();
       session.snapshot.version += 1;
+
+      await this.syncToOrchestrator(session);
     } catch (error) {
       console.error('Failed to update snapshot:', error);
     }
   }
 
+  /**
+   * Write the legacy snapshot through to the orchestrator's copy of the call.
+   * Answers the legacy model has no field for are kept.
+   */
+  private async syncToOrchestrator(session: VoiceSession): Promise<void> {
+    const orchestrator = getOrchestrator();
+    const state = orchestrator.getSession(session.id);
+    if (!state) return;
+
+    const snapshot = toIntakeSnapshot(session.id, session.snapshot, state.questions);
+    snapshot.answers = { ...state.snapshot.answers, ...snapshot.answers };
+    snapshot.red_flags = state.snapshot.red_flags;
+
+    await orchestrator.emitSnapshot(session.id, snapshot, state.snapshot.version ?? 0, 'legacy');
+  }
+
   /**
    * End session and perform post-call processing
    */
@@ -216,6 +244,10 @@ export class SessionManager {
       console.error('TwinMind correction failed:', error);
     }
 
+    if (getOrchestrator().getSession(sessionId)) {
+      getOrchestrator().endSession(sessionId);
+    }
+
     return session;
   }
 
@@ -249,56 +281,10 @@ export class SessionManager {
   }
 
   /**
-   * Get required questions for intake
+   * Get required questions for intake (from the orchestrator question set)
    */
   private getRequiredQuestions(): RequiredQuestion[] {
-    return [
-      {
-        id: 'q1',
-        question: 'What is your full name?',
-        verbatim: 'What is your full name?',
-        asked: false,
-        answered: false,
-        category: 'personal',
-        required: true,
-      },
-      {
-        id: 'q2',
-        question: 'What is your date of birth?',
-        verbatim: 'What is your date of birth?',
-        asked: false,
-        answered: false,
-        category: 'personal',
-        required: true,
-      },
-      {
-        id: 'q3',
-        question: 'What brings you in today?',
-        verbatim: 'What brings you in today?',
-        asked: false,
-        answered: false,
-        category: 'visit',
-        required: true,
-      },
-      {
-        id: 'q4',
-        question: 'Do you have any allergies to medications?',
-        verbatim: 'Do you have any allergies to medications?',
-        asked: false,
-        answered: false,
-        category: 'medical',
-        required: true,
-      },
-      {
-        id: 'q5',
-        question: 'What medications are you currently taking?',
-        verbatim: 'What medications are you currently taking?',
-        asked: false,
-        answered: false,
-        category: 'medical',
-        required: true,
-      },
-    ];
+    return toRequiredQuestions(new SlotEngine().getAllQuestions());
   }
 
   /**
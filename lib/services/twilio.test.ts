@@ -0,0 +1,36 @@
+import twilio from 'twilio';
+import { TwilioService } from './twilio';
+
+const URL = 'https://intake.example.com/api/telephony/whisper?call_id=call_test';
+const PARAMS = { CallSid: 'CA_test', From: '+15558675309' };
+
+describe('TwilioService.validateWebhook', () => {
+  const env = process.env;
+
+  beforeEach(() => {
+    process.env = {
+      ...env,
+      DEVELOPER_MODE: 'false',
+      TWILIO_ACCOUNT_SID: 'AC_test',
+      TWILIO_AUTH_TOKEN: 'test_auth_token',
+      TWILIO_PHONE_NUMBER: '+15550000000',
+    };
+  });
+
+  afterEach(() => {
+    process.env = env;
+  });
+
+  it('accepts a request signed with the auth token', () => {
+    const signature = twilio.getExpectedTwilioSignature('test_auth_token', URL, PARAMS);
+
+    expect(new TwilioService().validateWebhook(signature, URL, PARAMS)).toBe(true);
+  });
+
+  it('rejects a missing or forged signature', () => {
+    const forged = twilio.getExpectedTwilioSignature('another_token', URL, PARAMS);
+
+    expect(new TwilioService().validateWebhook(null, URL, PARAMS)).toBe(false);
+    expect(new TwilioService().validateWebhook(forged, URL, PARAMS)).toBe(false);
+  });
+});
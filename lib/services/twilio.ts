@@ -1,4 +1,5 @@
 import twilio from 'twilio';
+import { CallRedirect, TransferTarget } from '../types';
 
 export class TwilioService {
   private client: any;
@@ -6,6 +7,7 @@ export class TwilioService {
   private authToken: string;
   private phoneNumber: string;
   private isDeveloperMode: boolean;
+  private redirects: CallRedirect[] = [];
 
   constructor() {
     this.isDeveloperMode = process.env.DEVELOPER_MODE === 'true';
@@ -38,6 +40,109 @@ export class TwilioService {
     return twiml.toString();
   }
 
+  /**
+   * Transfer target for handoffs: TRANSFER_STAFF_NUMBER, else TRANSFER_QUEUE_NAME
+   */
+  getTransferTarget(): TransferTarget | null {
+    if (process.env.TRANSFER_STAFF_NUMBER) {
+      return { type: 'number', number: process.env.TRANSFER_STAFF_NUMBER };
+    }
+    if (process.env.TRANSFER_QUEUE_NAME) {
+      return { type: 'queue', queue: process.env.TRANSFER_QUEUE_NAME };
+    }
+    return null;
+  }
+
+  /**
+   * Generate TwiML that transfers the caller to staff.
+   * The announcement is spoken to the caller first; the whisper URL is
+   * played to the staff member before the call connects. Queue transfers
+   * have no whisper: a <Queue> url plays to the dequeued caller, not to the
+   * staff member, who gets the handoff summary from the staff dashboard.
+   */
+  generateTransferTwiML(
+    target: TransferTarget,
+    options: { announcement?: string; whisperUrl?: string } = {}
+  ): string {
+    const twiml = new twilio.twiml.VoiceResponse();
+
+    if (options.announcement) {
+      twiml.say(options.announcement);
+    }
+
+    if (target.type === 'number') {
+      const dial = twiml.dial({ callerId: this.phoneNumber || undefined });
+      dial.number(options.whisperUrl ? { url: options.whisperUrl } : {}, target.number);
+    } else {
+      twiml.enqueue(target.queue);
+    }
+
+    return twiml.toString();
+  }
+
+  /**
+   * Whether a webhook request was signed by Twilio with this account's auth
+   * token. `url` is the full URL Twilio requested, query string included.
+   * Mock mode has no token to check against and accepts every request.
+   */
+  validateWebhook(signature: string | null, url: string, params: Record<string, string>): boolean {
+    if (this.isDeveloperMode) {
+      return true;
+    }
+    return !!signature && twilio.validateRequest(this.authToken, signature, url, params);
+  }
+
+  /**
+   * Generate TwiML that speaks a whisper message to the staff member
+   */
+  generateWhisperTwiML(message: string): string {
+    const twiml = new twilio.twiml.VoiceResponse();
+    twiml.say(message);
+    return twiml.toString();
+  }
+
+  /**
+   * Redirect a live call to staff. In mock mode the redirect is only
+   * recorded (see getRedirects).
+   */
+  async transferCall(
+    callSid: string,
+    target: TransferTarget,
+    options: { announcement?: string; whisperUrl?: string } = {}
+  ): Promise<CallRedirect> {
+    const redirect: CallRedirect = {
+      call_sid: callSid,
+      target,
+      twiml: this.generateTransferTwiML(target, options),
+      redirected_at: new Date().toISOString(),
+    };
+
+    if (this.isDeveloperMode) {
+      redirect.mock = true;
+      this.redirects.push(redirect);
+      console.log(
+        `[Twilio Mock] Transferring call ${callSid} to ${target.type === 'number' ? target.number : `queue ${target.queue}`}`
+      );
+      return redirect;
+    }
+
+    try {
+      await this.client.calls(callSid).update({ twiml: redirect.twiml });
+      this.redirects.push(redirect);
+      return redirect;
+    } catch (error) {
+      console.error('Failed to transfer call:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Redirects made through this service, oldest first
+   */
+  getRedirects(callSid?: string): CallRedirect[] {
+    return callSid ? this.redirects.filter((r) => r.call_sid === callSid) : [...this.redirects];
+  }
+
   /**
    * Make an outbound call
    */
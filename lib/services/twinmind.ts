@@ -7,6 +7,7 @@ import type {
   IntakeSnapshot,
   TranscriptTurn,
 } from '../types';
+import { createRevision } from '../orchestrator/corrections';
 
 /**
  * TwinMind Ear-3 Pro Service
@@ -281,6 +282,7 @@ export class TwinMindService {
               const existingAnswer = updated.answers[slotKey];
               updated.answers[slotKey] = {
                 ...existingAnswer,
+                revisions: [...(existingAnswer.revisions || []), createRevision(existingAnswer, 'twinmind')],
                 value: newValue,
                 confidence: Math.max(existingAnswer.confidence, 0.95), // TwinMind is high confidence
                 evidence_turn_ids: [
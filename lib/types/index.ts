@@ -139,16 +139,87 @@ export interface IntakeSnapshot {
     callback_number?: string;
   };
   answers: Record<string, SlotAnswer>;
-  red_flags: string[];
+  red_flags: string[]; // Red flag rule ids (see shared/schemas/red_flags.json)
   completed: boolean;
   timestamp: string; // ISO date-time format
+  template?: {
+    id: string;
+    version: string;
+  };
+  question_compliance?: Record<string, QuestionCompliance>; // By question id, for audit
+  version?: number; // Increases by one with every stored change, starting at 1
+}
+
+// One change between two snapshot versions, addressed by a dotted path
+export interface SnapshotChange {
+  op: 'add' | 'remove' | 'replace';
+  path: string[]; // Keys from the snapshot root, e.g. ["answers", "dob", "value"]
+  from?: any;
+  to?: any;
+}
+
+// Entry in a call's append-only snapshot history
+export interface SnapshotVersion {
+  version: number;
+  saved_at: string; // ISO date-time format
+  changes: SnapshotChange[]; // Relative to the previous version; empty for version 1
+  snapshot?: IntakeSnapshot; // Version 1 only; later versions are rebuilt from their changes
+}
+
+// One agent utterance checked against a question's verbatim text
+export interface ComplianceAttempt {
+  utterance: string;
+  source: 'llm' | 'verbatim'; // LLM wording, or the raw verbatim text
+  score: number; // 0-1, 1 = asked word for word
+  compliant: boolean;
+  checked_at: string; // ISO date-time format
+}
+
+// Whether a question was asked as written, and how that was achieved
+export interface QuestionCompliance {
+  question_id: string;
+  verbatim: string;
+  compliant: boolean; // Latest attempt met the tolerance
+  resolution?: 'accepted' | 'regenerated' | 'replaced'; // Set once compliant
+  attempts: ComplianceAttempt[];
 }
 
 export interface SlotAnswer {
   value?: any;
   confidence: number;
-  status: 'filled' | 'unknown' | 'not_applicable';
+  // declined / unknown_to_patient: the patient would not or could not answer;
+  // unanswered: no usable answer after the question's max_attempts.
+  // All three are resolved without a value and flagged for staff follow-up
+  status:
+    | 'filled'
+    | 'confirmed'
+    | 'unknown'
+    | 'not_applicable'
+    | 'declined'
+    | 'unknown_to_patient'
+    | 'unanswered';
   evidence_turn_ids: string[];
+  reason?: string; // Machine-readable reason for a non-filled status
+  revisions?: SlotRevision[]; // Earlier answers this one replaced, oldest first
+}
+
+// An answer as it was before being replaced, and what replaced it
+export interface SlotRevision {
+  value?: any;
+  status: SlotAnswer['status'];
+  confidence: number;
+  evidence_turn_ids: string[];
+  changed_at: string; // ISO date-time format
+  changed_by:
+    | 'patient_correction' // "Actually, ..." or a value given while rejecting a read-back
+    | 'readback_rejected'
+    | 'non_answer' // Declined, unknown to the patient, or given up after max attempts
+    | 'llm'
+    | 'rules'
+    | 'manual' // Posted to /api/v1/emit_snapshot
+    | 'legacy' // Mirrored from a deprecated SessionManager session
+    | 'twinmind';
+  turn_id?: string; // Turn that triggered the change
 }
 
 // Transcript Turn object
@@ -163,18 +234,22 @@ export interface TranscriptTurn {
   is_final?: boolean;
   entities?: Entity[];
   redactions?: Redaction[];
+  redacted_text?: string; // text with redaction spans masked, for logs and SSE
 }
 
 export interface Entity {
   type: string; // e.g., 'dob', 'medication', 'symptom'
   value: string;
   confidence: number;
+  offset: number; // Character span in TranscriptTurn.text
+  length: number;
 }
 
 export interface Redaction {
   type: string; // e.g., 'phone', 'ssn', 'address'
   offset: number;
   length: number;
+  confidence?: number;
 }
 
 // LLM Function/Tool Schemas
@@ -191,6 +266,7 @@ export interface RequestHandoffArgs {
   call_id: string;
   reason: string;
   priority?: 'urgent' | 'high' | 'normal';
+  rule_id?: string; // Red flag rule behind the handoff, if any
 }
 
 export interface SpeakArgs {
@@ -224,6 +300,42 @@ export interface IntakeQuestion {
     type: 'string' | 'date' | 'boolean' | 'array';
     format?: string;
   };
+  conditions?: ConditionExpression[]; // All must hold for the question to be asked
+  skip_if?: ConditionExpression; // Marks the slot not_applicable when true
+  follow_ups?: string[]; // Question ids asked right after this one
+  confirm?: boolean; // Read the answer back and wait for the patient's yes/no
+  rephrase?: string; // Approved alternate wording, used when the patient does not respond
+  max_attempts?: number; // Times the question is asked before it is given up as unanswered
+}
+
+// Branching expressions evaluated against IntakeSnapshot.answers
+export type ConditionOperator =
+  | 'equals'
+  | 'not_equals'
+  | 'in'
+  | 'not_in'
+  | 'contains'
+  | 'empty'
+  | 'not_empty'
+  | 'gt'
+  | 'gte'
+  | 'lt'
+  | 'lte';
+
+export type ConditionExpression =
+  | { slot: string; op: ConditionOperator; value?: any }
+  | { all: ConditionExpression[] }
+  | { any: ConditionExpression[] }
+  | { not: ConditionExpression };
+
+// Named, versioned intake question set (e.g. urgent care, pediatrics)
+export interface IntakeTemplate {
+  id: string;
+  version: string;
+  name: string;
+  description?: string;
+  caller?: 'patient' | 'proxy'; // 'proxy' when someone answers for the patient (e.g. a parent)
+  questions: IntakeQuestion[];
 }
 
 export interface SlotEngineState {
@@ -232,18 +344,148 @@ export interface SlotEngineState {
   current_question_index: number;
   snapshot: IntakeSnapshot;
   turns: TranscriptTurn[];
+  metadata?: SessionMetadata;
+  pending_confirmation?: PendingConfirmation;
+  confirmation_attempts?: Record<string, number>; // Rejected read-backs per slot
+  provisional_red_flags?: ProvisionalRedFlag[]; // Raised on interim turns, awaiting the final turn
+  red_flag_records?: RedFlagRecord[]; // Red flags raised this call and their handling
+  handoffs?: HandoffRecord[]; // Handoff requests for this call; at most one is open
+  asked_question_ids?: string[]; // Questions whose audio played to the end
+  question_attempts?: Record<string, number>; // Times each question was asked, by question id; with playback reporting, only asks heard to the end
+  unplayed_question_id?: string; // Question counted when asked, until its playback completes or is interrupted
+}
+
+export type HandoffPriority = 'urgent' | 'high' | 'normal';
+
+// A request for staff to take over a call, queued until someone claims it
+export interface HandoffRecord {
+  handoff_id: string;
+  call_id: string;
+  reason: string;
+  priority: HandoffPriority;
+  rule_id?: string;
+  status: 'queued' | 'claimed' | 'resolved';
+  requested_at: string; // ISO date-time format
+  sla_due_at?: string; // ISO date-time format; set while queued
+  claimed_by?: string;
+  claimed_at?: string; // ISO date-time format
+  resolved_at?: string; // ISO date-time format
+  resolved_by?: string; // Staff member; unset when the call ended
+  escalations: number; // SLA breaches while unclaimed
+  last_escalated_at?: string; // ISO date-time format
+}
+
+// Urgent red flag raised early on an interim transcript
+export interface ProvisionalRedFlag {
+  rule_id: string;
+  turn_id: string; // Interim turn that raised it
+  detected_at: string; // ISO date-time format
+}
+
+// Read-back awaiting the patient's yes/no
+export interface PendingConfirmation {
+  slot: string;
+  question_id: string;
+  prompt: string;
+  requested_at: string; // ISO date-time format
+}
+
+// Call-level details carried over from the telephony layer
+export interface SessionMetadata {
+  call_sid?: string;
+  phone_number?: string;
+  status: 'active' | 'completed' | 'failed';
+  started_at: string; // ISO date-time format
+  ended_at?: string; // ISO date-time format
+  recording_url?: string;
+  transfer?: CallRedirect; // Set once the live call was handed to staff
 }
 
 // Safety detection types
 export interface RedFlagRule {
+  id: string; // Stable id stored in IntakeSnapshot.red_flags
   tokens: string[][];
   reason: string;
   priority: 'urgent' | 'high' | 'normal';
+  enabled?: boolean; // false switches a rule off, e.g. a default rule for one template
+  min_score?: number; // Overrides RedFlagRuleSet.match_threshold for this rule
+}
+
+// Rules for one intake template ('default' applies to every call)
+export interface RedFlagRulePack {
+  template_id: string;
+  description?: string;
+  rules: RedFlagRule[];
+}
+
+// Versioned contents of shared/schemas/red_flags.json
+export interface RedFlagRuleSet {
+  version: string;
+  match_threshold?: number; // Minimum fuzzy match score (0-1) for a token to count
+  synonyms?: Record<string, string[]>; // Rule token -> equivalent phrasings
+  packs: RedFlagRulePack[];
+}
+
+export interface RedFlagDetection {
+  rule_id: string;
+  reason: string;
+  priority: 'urgent' | 'high' | 'normal';
+  evidence: string[];
+  evidence_turn_ids: string[];
+  assertion: RedFlagAssertion;
+  score: number; // Weakest token match score of the matching token set
+}
+
+// Only 'affirmed' (current, not negated, experienced by the patient) escalates
+export type AssertionStatus =
+  | 'affirmed'
+  | 'negated'
+  | 'other_experiencer'
+  | 'historical'
+  | 'hypothetical';
+
+export interface RedFlagAssertion {
+  status: AssertionStatus;
+  negated: boolean;
+  experiencer: 'patient' | 'other';
+  temporality: 'current' | 'historical' | 'hypothetical';
+}
+
+export type RedFlagStatus = 'detected' | 'acknowledged' | 'dismissed' | 'escalated';
+
+// A red flag raised during a call and its handling by staff
+export interface RedFlagRecord {
+  flag_id: string;
+  call_id: string;
+  rule_id: string;
+  reason: string;
+  priority: 'urgent' | 'high' | 'normal';
+  evidence: string[];
+  evidence_turn_ids: string[];
+  score: number;
+  status: RedFlagStatus;
+  detected_at: string; // ISO date-time format
+  acknowledged_by?: string;
+  acknowledged_at?: string; // ISO date-time format
+  dismissed_by?: string;
+  dismissed_at?: string; // ISO date-time format
+  dismissal_reason?: string;
+  dismissed_through_turn_id?: string; // Last turn of the call when dismissed; later evidence raises a new flag
+  escalated_by?: string;
+  escalated_at?: string; // ISO date-time format
+  audit: RedFlagAuditEntry[];
+}
+
+export interface RedFlagAuditEntry {
+  status: RedFlagStatus; // Status the flag moved to
+  actor: string; // Staff member, or 'system' for automatic changes
+  at: string; // ISO date-time format
+  note?: string;
 }
 
 // Twilio Media Streams types
 export interface TwilioMediaMessage {
-  event: 'connected' | 'start' | 'media' | 'stop';
+  event: 'connected' | 'start' | 'media' | 'stop' | 'mark';
   sequenceNumber?: string;
   streamSid?: string;
   media?: {
@@ -268,6 +510,34 @@ export interface TwilioMediaMessage {
     accountSid: string;
     callSid: string;
   };
+  mark?: {
+    name: string; // Echoed back by Twilio once audio sent before the mark has played
+  };
+}
+
+// Agent speech sent to the call, tracked by a Twilio mark
+export interface TtsPlayback {
+  playback_id: string; // Also the mark name
+  text: string;
+  question_id?: string; // Set when the speech asks an intake question
+  status: 'started' | 'completed' | 'interrupted';
+  duration_ms: number;
+  started_at: string; // ISO date-time format; estimated, audio queued behind earlier speech starts later
+  completed_at?: string; // ISO date-time format
+  heard_ms?: number; // Interrupted playback: audio played before the patient barged in
+  heard_text?: string; // Interrupted playback: estimated portion of text the patient heard
+}
+
+// Where a live call is transferred on handoff: a staff number (<Dial>) or a queue (<Enqueue>)
+export type TransferTarget = { type: 'number'; number: string } | { type: 'queue'; queue: string };
+
+// A live call redirected to new TwiML
+export interface CallRedirect {
+  call_sid: string;
+  target: TransferTarget;
+  twiml: string;
+  redirected_at: string; // ISO date-time format
+  mock?: boolean; // Recorded only, no Twilio API call was made
 }
 
 // TwinMind API types
@@ -0,0 +1,100 @@
+/**
+ * Audio utilities for Twilio Media Streams
+ * Twilio plays 8 kHz mono G.711 µ-law, sent as base64 payloads of 20 ms
+ * (160 byte) frames. TTS output is 16-bit little-endian PCM.
+ */
+
+export const TWILIO_SAMPLE_RATE = 8000;
+export const FRAME_MS = 20;
+export const FRAME_BYTES = (TWILIO_SAMPLE_RATE * FRAME_MS) / 1000; // One µ-law byte per sample
+
+// µ-law encoding of a zero sample, used to pad the last frame
+const MULAW_SILENCE = 0xff;
+const MULAW_BIAS = 0x84;
+const MULAW_CLIP = 32635;
+
+/**
+ * Resample 16-bit PCM by linear interpolation. When downsampling, each
+ * output sample averages the input samples it covers to limit aliasing.
+ */
+export function resamplePCM16(pcm: Buffer, fromRate: number, toRate: number): Buffer {
+  const inputSamples = Math.floor(pcm.length / 2);
+  if (fromRate === toRate) {
+    return pcm.subarray(0, inputSamples * 2);
+  }
+
+  const ratio = fromRate / toRate;
+  const outputSamples = Math.floor(inputSamples / ratio);
+  const output = Buffer.alloc(outputSamples * 2);
+  const sampleAt = (i: number) => pcm.readInt16LE(Math.min(i, inputSamples - 1) * 2);
+
+  for (let i = 0; i < outputSamples; i++) {
+    const position = i * ratio;
+    let value: number;
+
+    if (ratio > 1) {
+      const start = Math.floor(position);
+      const end = Math.min(Math.floor(position + ratio), inputSamples);
+      let sum = 0;
+      for (let j = start; j < end; j++) sum += sampleAt(j);
+      value = sum / Math.max(1, end - start);
+    } else {
+      const index = Math.floor(position);
+      const fraction = position - index;
+      value = sampleAt(index) * (1 - fraction) + sampleAt(index + 1) * fraction;
+    }
+
+    output.writeInt16LE(Math.max(-32768, Math.min(32767, Math.round(value))), i * 2);
+  }
+
+  return output;
+}
+
+/**
+ * Encode 16-bit PCM as G.711 µ-law
+ */
+export function encodeMuLaw(pcm: Buffer): Buffer {
+  const samples = Math.floor(pcm.length / 2);
+  const output = Buffer.alloc(samples);
+
+  for (let i = 0; i < samples; i++) {
+    output[i] = linearToMuLaw(pcm.readInt16LE(i * 2));
+  }
+
+  return output;
+}
+
+/**
+ * Split µ-law audio into 20 ms frames, padding the last one with silence
+ */
+export function chunkFrames(mulaw: Buffer, frameBytes: number = FRAME_BYTES): Buffer[] {
+  const frames: Buffer[] = [];
+
+  for (let offset = 0; offset < mulaw.length; offset += frameBytes) {
+    const frame = Buffer.alloc(frameBytes, MULAW_SILENCE);
+    mulaw.copy(frame, 0, offset, Math.min(offset + frameBytes, mulaw.length));
+    frames.push(frame);
+  }
+
+  return frames;
+}
+
+/**
+ * TTS PCM at any sample rate → Twilio-ready µ-law frames
+ */
+export function pcmToTwilioFrames(pcm: Buffer, sampleRate: number): Buffer[] {
+  return chunkFrames(encodeMuLaw(resamplePCM16(pcm, sampleRate, TWILIO_SAMPLE_RATE)));
+}
+
+function linearToMuLaw(sample: number): number {
+  const sign = sample < 0 ? 0x80 : 0;
+  const magnitude = Math.min(Math.abs(sample), MULAW_CLIP) + MULAW_BIAS;
+
+  let exponent = 7;
+  for (let mask = 0x4000; (magnitude & mask) === 0 && exponent > 0; mask >>= 1) {
+    exponent--;
+  }
+
+  const mantissa = (magnitude >> (exponent + 3)) & 0x0f;
+  return ~(sign | (exponent << 4) | mantissa) & 0xff;
+}
@@ -48,7 +48,7 @@ const conversation = [
   },
   {
     speaker: 'patient',
-    text: '555-123-4567',
+    text: '555-234-5678',
     delay: 2000,
     confidence: 0.95,
   },
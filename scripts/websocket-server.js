@@ -2,13 +2,17 @@
 
 /**
  * Standalone WebSocket Server for Twilio Media Streams
- * Parses Twilio frames, forwards audio to streaming ASR adapter
+ * Parses Twilio frames, forwards audio to streaming ASR adapter, and
+ * subscribes to the shared orchestrator event stream so it observes the
+ * same OrchestratorEvents as the Next.js routes: over IPC when forked by
+ * the Next.js server (EVENT_BUS=ipc), else over /api/v1/live
  * 
  * Usage: node scripts/websocket-server.js
  */
 
 const WebSocket = require('ws');
 const http = require('http');
+const EventSource = require('eventsource');
 const fetch = (...args) => import('node-fetch').then(({default: fetch}) => fetch(...args));
 
 const PORT = process.env.WS_PORT || 8080;
@@ -49,6 +53,7 @@ wss.on('connection', (ws, req) => {
     startTime: Date.now(),
     audioFrameCount: 0,
     asrAdapter: null,
+    eventSource: null,
   });
 
   // Handle incoming Twilio Media Streams messages
@@ -103,6 +108,11 @@ wss.on('connection', (ws, req) => {
             console.error(`[${sessionId}] Error notifying orchestrator:`, error.message);
           }
 
+          // Observe orchestrator events for this call
+          if (conn) {
+            conn.eventSource = subscribeToOrchestrator(sessionId);
+          }
+
           // Send mark to acknowledge
           sendMark(ws, message.start.streamSid, 'stream_started');
           break;
@@ -136,8 +146,8 @@ wss.on('connection', (ws, req) => {
             conn.asrAdapter.isActive = false;
             console.log(`[${sessionId}] Total audio frames: ${conn.audioFrameCount}`);
           }
-          
-          connections.delete(sessionId);
+
+          closeConnection(sessionId);
           break;
 
         case 'mark':
@@ -155,7 +165,7 @@ wss.on('connection', (ws, req) => {
 
   ws.on('close', () => {
     console.log(`[${sessionId}] WebSocket closed`);
-    connections.delete(sessionId);
+    closeConnection(sessionId);
   });
 
   ws.on('error', (error) => {
@@ -163,6 +173,55 @@ wss.on('connection', (ws, req) => {
   });
 });
 
+// Subscribe to the orchestrator's event stream for a call
+function subscribeToOrchestrator(sessionId) {
+  if (typeof process.send === 'function') {
+    return subscribeOverIpc(sessionId);
+  }
+
+  const eventSource = new EventSource(
+    `${API_BASE}/api/v1/live?call_id=${encodeURIComponent(sessionId)}`
+  );
+
+  eventSource.onmessage = (message) => {
+    try {
+      const event = JSON.parse(message.data);
+      console.log(`[${sessionId}] Orchestrator event: ${event.type}`);
+    } catch (error) {
+      console.error(`[${sessionId}] Error parsing orchestrator event:`, error.message);
+    }
+  };
+
+  eventSource.onerror = () => {
+    console.error(`[${sessionId}] Orchestrator event stream error`);
+  };
+
+  return eventSource;
+}
+
+// Events relayed by the parent's IPC event bus as { type: 'orchestrator_event', event }
+function subscribeOverIpc(sessionId) {
+  const onMessage = (message) => {
+    if (message && message.type === 'orchestrator_event' && message.event.call_id === sessionId) {
+      console.log(`[${sessionId}] Orchestrator event: ${message.event.type}`);
+    }
+  };
+  process.on('message', onMessage);
+
+  return {
+    close: () => process.off('message', onMessage),
+  };
+}
+
+// Release per-connection resources
+function closeConnection(sessionId) {
+  const conn = connections.get(sessionId);
+  if (conn && conn.eventSource) {
+    conn.eventSource.close();
+  }
+  connections.delete(sessionId);
+}
+
 // Helper to send mark event
 function sendMark(ws, streamSid, name) {
   ws.send(